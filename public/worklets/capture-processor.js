@@ -0,0 +1,65 @@
+// Microphone capture AudioWorklet
+//
+// Runs on the audio rendering thread: resamples the input to the target rate, converts to Int16
+// and posts fixed-size frames, so the main thread only encodes and sends. Plain JS because
+// worklet modules are loaded by URL (served from public/, not bundled).
+// Keep the resampler in sync with StreamResampler in src/utils/audio.ts (the fallback path).
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSamples } = options.processorOptions;
+    // `sampleRate` is the AudioWorkletGlobalScope rate of the context
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSamples = frameSamples;
+    this.frame = new Float32Array(frameSamples);
+    this.frameLength = 0;
+    // Fractional read position into the current block, carried across blocks
+    this.position = 0;
+    this.lastSample = 0;
+    // Stopping: hand over the partial frame, then confirm so the main thread can disconnect
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') {
+        this.flush();
+        this.port.postMessage({ flushed: true });
+      }
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    // Linear interpolation between the previous block's last sample and this block
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const before = index === 0 ? this.lastSample : input[index - 1];
+      const after = input[index];
+      this.push(before + (after - before) * fraction);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.lastSample = input[input.length - 1];
+    return true;
+  }
+
+  push(sample) {
+    this.frame[this.frameLength++] = sample;
+    if (this.frameLength === this.frameSamples) this.flush();
+  }
+
+  flush() {
+    if (this.frameLength === 0) return;
+    const samples = this.frame.slice(0, this.frameLength);
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    this.frameLength = 0;
+    this.port.postMessage({ samples, pcm }, [samples.buffer, pcm.buffer]);
+  }
+}
+
+registerProcessor('capture-processor', CaptureProcessor);
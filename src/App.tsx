@@ -1,12 +1,15 @@
 import { useEffect } from 'react';
-import { useChatStore } from '@/stores/chatStore';
+import { useChatStore, LAST_CHARACTER_KEY } from '@/stores/chatStore';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { useAudioPlayer } from '@/hooks/useAudioPlayer';
+import { useHotkeys } from '@/hooks/useHotkeys';
 import { Header } from '@/components/Header';
 import { Live2DCanvas } from '@/components/Live2DCanvas';
 import { ChatPanel } from '@/components/ChatPanel';
+import { SessionSidebar } from '@/components/SessionSidebar';
 import { VoiceControls } from '@/components/VoiceControls';
 import { StatusIndicator } from '@/components/StatusIndicator';
+import { HotkeyHelp } from '@/components/HotkeyHelp';
 import { cn } from '@/utils/cn';
 
 function App() {
@@ -14,16 +17,28 @@ function App() {
   const isDarkMode = useChatStore((state) => state.isDarkMode);
   const errorMessage = useChatStore((state) => state.errorMessage);
   const setErrorMessage = useChatStore((state) => state.setErrorMessage);
+  const loadHistory = useChatStore((state) => state.loadHistory);
   const { fetchCharacters } = useWebSocket();
   
   // Initialize audio player
   useAudioPlayer();
 
+  // Global keyboard shortcuts
+  useHotkeys();
+
   // Fetch characters on mount
   useEffect(() => {
     fetchCharacters();
   }, [fetchCharacters]);
 
+  // Restore the last shown conversation from IndexedDB so a reload does not start empty
+  useEffect(() => {
+    const lastCharacter = localStorage.getItem(LAST_CHARACTER_KEY);
+    if (lastCharacter && !useChatStore.getState().activeSession) {
+      loadHistory(lastCharacter);
+    }
+  }, [loadHistory]);
+
   // Apply dark mode class to html element
   useEffect(() => {
     document.documentElement.classList.toggle('light', !isDarkMode);
@@ -60,8 +75,11 @@ function App() {
 
         {/* Right: Chat Panel */}
         <div className="w-full flex-1 md:min-h-0 flex flex-col gap-4 min-h-0 min-w-0">
-          <div className="flex-1 min-h-0">
-            <ChatPanel />
+          <div className="flex-1 min-h-0 flex gap-4">
+            <SessionSidebar />
+            <div className="flex-1 min-w-0">
+              <ChatPanel />
+            </div>
           </div>
           
           {/* Voice Controls */}
@@ -76,6 +94,9 @@ function App() {
         </div>
       </main>
 
+      {/* Keyboard shortcuts overlay */}
+      <HotkeyHelp />
+
       {/* Error Toast */}
       {errorMessage && (
         <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 animate-slide-up">
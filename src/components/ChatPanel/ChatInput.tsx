@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { cn } from '@/utils/cn';
 import { Send, Loader2 } from 'lucide-react';
 import { useChatStore } from '@/stores/chatStore';
+import { hotkeyCommands } from '@/utils/hotkeys';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
@@ -14,8 +15,11 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
   // Use selectors to avoid subscribing to entire store
   const isThinking = useChatStore((state) => state.isThinking);
   const connectionStatus = useChatStore((state) => state.connectionStatus);
+  const reconnectSchedule = useChatStore((state) => state.reconnectSchedule);
 
-  const isDisabled = disabled || connectionStatus !== 'connected' || isThinking;
+  // While (re)connecting, messages go to the client outbox and are sent once connected
+  const isQueueing = connectionStatus === 'connecting' || (connectionStatus !== 'connected' && !!reconnectSchedule);
+  const isDisabled = disabled || (connectionStatus !== 'connected' && !isQueueing) || isThinking;
 
   const handleSubmit = () => {
     if (input.trim() && !isDisabled) {
@@ -35,6 +39,9 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
     }
   };
 
+  // Focus shortcut
+  useEffect(() => hotkeyCommands.on('focus_input', () => textareaRef.current?.focus()), []);
+
   // Auto-resize textarea
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -53,7 +60,9 @@ export function ChatInput({ onSend, disabled }: ChatInputProps) {
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
           placeholder={
-            connectionStatus !== 'connected'
+            isQueueing
+              ? '正在连接，消息将在连接后发送...'
+              : connectionStatus !== 'connected'
               ? '请先连接服务器...'
               : isThinking
               ? '等待回复中...'
@@ -1,9 +1,22 @@
+import { useEffect, useRef, useState } from 'react';
 import { cn } from '@/utils/cn';
-import type { ChatMessage as ChatMessageType } from '@/stores/chatStore';
-import { User, Bot } from 'lucide-react';
+import { useChatStore, type ChatMessage as ChatMessageType, type MessageSegment } from '@/stores/chatStore';
+import { loadTurnAudio } from '@/utils/historyDb';
+import { encodeWav } from '@/utils/audio';
+import { downloadBlob } from '@/utils/download';
+import { applyOutputDevice } from '@/utils/audioDevices';
+import type { TurnTrace } from '@/utils/turnTrace';
+import { TurnWaterfall } from './TurnWaterfall';
+import { User, Bot, Play, Square, Download, Clock, AlertCircle, RotateCw, Trash2, Timer } from 'lucide-react';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  /** Pipeline timing of the turn this bubble closes. */
+  trace?: TurnTrace;
+  /** Resend a failed user message. */
+  onRetry?: (id: string) => void;
+  /** Drop an unsent user message. */
+  onDiscard?: (id: string) => void;
 }
 
 const emotionColors: Record<string, string> = {
@@ -25,8 +38,196 @@ const emotionLabels: Record<string, string> = {
   auto: '自动',
 };
 
-export function ChatMessage({ message }: ChatMessageProps) {
+/** Where the typing of a live reply is: characters of segment `segment` shown so far. */
+interface TypedPosition {
+  segment: number;
+  chars: number;
+}
+
+/**
+ * Text of an assistant reply. While its turn is live the sentences appear in step with their
+ * audio (the player's speechProgressRef); untyped text is laid out invisibly so the bubble keeps
+ * its size. The sentence being heard is highlighted and kept in view. Emotion changes between
+ * sentences are marked inline.
+ */
+function ReplyText({ message }: { message: ChatMessageType }) {
+  const isCurrentTurn = useChatStore((state) => !!message.turnId && state.currentTurnId === message.turnId);
+  const isPlaying = useChatStore((state) => state.isPlaying);
+  const spokenSegment = useChatStore((state) =>
+    state.spokenSentence?.messageId === message.id ? state.spokenSentence.segment : null
+  );
+  const spokenRef = useRef<HTMLSpanElement>(null);
+  const [typed, setTyped] = useState<TypedPosition | null>(null);
+  const isLive = isCurrentTurn && (!!message.isPartial || isPlaying);
+  const segments = message.segments ?? [
+    { content: message.content, contentJp: message.contentJp, emotion: message.emotion },
+  ];
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+
+  useEffect(() => {
+    if (!isLive) return;
+    const progressRef = useChatStore.getState().speechProgressRef;
+    let frame: number;
+    const update = () => {
+      const progress = progressRef.current;
+      // Between playback ending and turn_end there is no progress; keep the last position
+      if (progress?.messageId === message.id) {
+        const length = segmentsRef.current[progress.segment]?.content.length ?? 0;
+        const chars = Math.round(length * progress.fraction);
+        setTyped((previous) =>
+          previous?.segment === progress.segment && previous.chars === chars
+            ? previous
+            : { segment: progress.segment, chars }
+        );
+      }
+      frame = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frame);
+  }, [isLive, message.id]);
+
+  // Follow the voice when the reply is longer than the visible area
+  useEffect(() => {
+    if (spokenSegment === null) return;
+    spokenRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [spokenSegment]);
+
+  // Not heard yet: the reply is still coming or its audio has not started
+  if (isLive && !typed) {
+    return (
+      <div className="flex gap-1 py-1.5">
+        <span className="w-1.5 h-1.5 bg-accent-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+        <span className="w-1.5 h-1.5 bg-accent-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+        <span className="w-1.5 h-1.5 bg-accent-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+      </div>
+    );
+  }
+
+  const shownChars = (index: number, segment: MessageSegment): number => {
+    if (!isLive || !typed || index < typed.segment) return segment.content.length;
+    return index === typed.segment ? typed.chars : 0;
+  };
+  const spokenJp = segments
+    .filter((segment, index) => shownChars(index, segment) > 0)
+    .map((segment) => segment.contentJp ?? '')
+    .join('');
+
+  return (
+    <>
+      <p className="text-sm leading-relaxed whitespace-pre-wrap">
+        {segments.map((segment, index) => {
+          const shown = shownChars(index, segment);
+          const emotionChanged = index > 0 && !!segment.emotion && segment.emotion !== segments[index - 1].emotion;
+          return (
+            <span key={index}>
+              {emotionChanged && shown > 0 && (
+                <span
+                  className={cn(
+                    'inline-block align-middle mx-1 text-[10px] leading-none px-1.5 py-0.5 rounded-full border',
+                    emotionColors[segment.emotion!] || emotionColors.idle
+                  )}
+                >
+                  {emotionLabels[segment.emotion!] || segment.emotion}
+                </span>
+              )}
+              {index === spokenSegment ? (
+                <span ref={spokenRef} className="rounded bg-accent-500/20 text-white transition-colors">
+                  {segment.content.slice(0, shown)}
+                </span>
+              ) : (
+                segment.content.slice(0, shown)
+              )}
+              {shown < segment.content.length && (
+                <span className="opacity-0 select-none" aria-hidden>
+                  {segment.content.slice(shown)}
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </p>
+
+      {/* Japanese text, per sentence as it is spoken */}
+      {spokenJp && <p className="text-xs mt-2 opacity-60 border-t border-white/10 pt-2">{spokenJp}</p>}
+    </>
+  );
+}
+
+/** Build a WAV file from the stored PCM of a turn. */
+async function loadTurnWav(turnId: string): Promise<Blob> {
+  const audio = await loadTurnAudio(turnId);
+  if (!audio) {
+    throw new Error('Turn audio not found');
+  }
+  return encodeWav(audio.pcm, audio.sampleRate);
+}
+
+export function ChatMessage({ message, trace, onRetry, onDiscard }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [showTrace, setShowTrace] = useState(false);
+  const replayRef = useRef<HTMLAudioElement | null>(null);
+  const setErrorMessage = useChatStore((state) => state.setErrorMessage);
+  const canReplay = !isUser && message.hasAudio && !!message.turnId;
+  const isPending = message.deliveryStatus === 'pending';
+  const isFailed = message.deliveryStatus === 'failed';
+  const openingEmotion = message.segments?.[0]?.emotion ?? message.emotion;
+
+  const stopReplay = () => {
+    const audio = replayRef.current;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      replayRef.current = null;
+    }
+    setIsReplaying(false);
+  };
+
+  const handleReplay = async () => {
+    if (!message.turnId) return;
+    if (replayRef.current) {
+      stopReplay();
+      return;
+    }
+    try {
+      const audio = new Audio(URL.createObjectURL(await loadTurnWav(message.turnId)));
+      // Same output and volume as live replies
+      const { outputVolume, isOutputMuted, audioOutputDeviceId } = useChatStore.getState();
+      audio.volume = isOutputMuted ? 0 : outputVolume;
+      if (audioOutputDeviceId) await applyOutputDevice(audio, audioOutputDeviceId);
+      audio.onended = stopReplay;
+      replayRef.current = audio;
+      setIsReplaying(true);
+      await audio.play();
+    } catch (error) {
+      console.error('Failed to replay turn audio:', error);
+      stopReplay();
+      setErrorMessage('语音回放失败');
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!message.turnId) return;
+    try {
+      const time = message.timestamp.toISOString().replace(/[:.]/g, '-');
+      downloadBlob(await loadTurnWav(message.turnId), `reply-${time}.wav`);
+    } catch (error) {
+      console.error('Failed to download turn audio:', error);
+      setErrorMessage('语音下载失败');
+    }
+  };
+
+  // Stop replay when the bubble unmounts (e.g. session switch)
+  useEffect(() => {
+    return () => {
+      const audio = replayRef.current;
+      if (audio) {
+        audio.pause();
+        URL.revokeObjectURL(audio.src);
+      }
+    };
+  }, []);
 
   return (
     <div
@@ -54,15 +255,15 @@ export function ChatMessage({ message }: ChatMessageProps) {
           isUser ? 'items-end' : 'items-start'
         )}
       >
-        {/* Emotion Badge (for assistant) */}
-        {!isUser && message.emotion && (
+        {/* Emotion Badge (for assistant; later sentences mark their own changes) */}
+        {!isUser && openingEmotion && (
           <span
             className={cn(
               'text-xs px-2 py-0.5 rounded-full border',
-              emotionColors[message.emotion] || emotionColors.idle
+              emotionColors[openingEmotion] || emotionColors.idle
             )}
           >
-            {emotionLabels[message.emotion] || message.emotion}
+            {emotionLabels[openingEmotion] || openingEmotion}
           </span>
         )}
 
@@ -73,28 +274,97 @@ export function ChatMessage({ message }: ChatMessageProps) {
             isUser
               ? 'bg-primary-500/20 text-white rounded-tr-sm'
               : 'glass rounded-tl-sm',
-            message.isPartial && 'opacity-70'
+            isPending && 'opacity-70',
+            isFailed && 'border border-red-500/40'
           )}
         >
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">
-            {message.content}
-          </p>
-
-          {/* Japanese text (for assistant) */}
-          {!isUser && message.contentJp && (
-            <p className="text-xs mt-2 opacity-60 border-t border-white/10 pt-2">
-              {message.contentJp}
+          {isUser ? (
+            <p className="text-sm leading-relaxed whitespace-pre-wrap">
+              {message.content}
             </p>
+          ) : (
+            <ReplyText message={message} />
+          )}
+        </div>
+
+        {/* Timestamp and voice actions */}
+        <div className="flex items-center gap-2">
+          <span className="text-xs opacity-40">
+            {message.timestamp.toLocaleTimeString('zh-CN', {
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </span>
+          {message.interrupted && (
+            <span className="text-xs text-white/40" title="回复被打断，仅保留已播放的部分">
+              已打断
+            </span>
+          )}
+          {isPending && (
+            <span className="flex items-center gap-1 text-xs text-white/40" title="等待连接后发送">
+              <Clock size={12} />
+              待发送
+            </span>
+          )}
+          {isFailed && (
+            <>
+              <span className="flex items-center gap-1 text-xs text-red-400">
+                <AlertCircle size={12} />
+                发送失败
+              </span>
+              {onRetry && (
+                <button
+                  onClick={() => onRetry(message.id)}
+                  className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                  title="重新发送"
+                >
+                  <RotateCw size={12} />
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  onClick={() => onDiscard(message.id)}
+                  className="p-1 rounded text-white/40 hover:text-red-400 hover:bg-white/10 transition-colors"
+                  title="删除消息"
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </>
+          )}
+          {canReplay && (
+            <>
+              <button
+                onClick={handleReplay}
+                className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                title={isReplaying ? '停止回放' : '回放语音'}
+              >
+                {isReplaying ? <Square size={12} /> : <Play size={12} />}
+              </button>
+              <button
+                onClick={handleDownload}
+                className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                title="下载语音 (WAV)"
+              >
+                <Download size={12} />
+              </button>
+            </>
+          )}
+          {trace && (
+            <button
+              onClick={() => setShowTrace(!showTrace)}
+              className={cn(
+                'p-1 rounded hover:text-white hover:bg-white/10 transition-colors',
+                showTrace ? 'text-white' : 'text-white/40'
+              )}
+              title="本轮耗时"
+            >
+              <Timer size={12} />
+            </button>
           )}
         </div>
 
-        {/* Timestamp */}
-        <span className="text-xs opacity-40">
-          {message.timestamp.toLocaleTimeString('zh-CN', {
-            hour: '2-digit',
-            minute: '2-digit',
-          })}
-        </span>
+        {trace && showTrace && <TurnWaterfall trace={trace} />}
       </div>
     </div>
   );
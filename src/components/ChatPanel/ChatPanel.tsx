@@ -2,8 +2,9 @@ import { useEffect, useRef } from 'react';
 import { useChatStore } from '@/stores/chatStore';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
+import { TranscriptMenu } from './TranscriptMenu';
 import { useWebSocket } from '@/hooks/useWebSocket';
-import { Loader2, Sparkles } from 'lucide-react';
+import { Loader2, Sparkles, Lock, PanelLeftOpen } from 'lucide-react';
 import { cn } from '@/utils/cn';
 
 export function ChatPanel() {
@@ -13,24 +14,51 @@ export function ChatPanel() {
   const partialTranscription = useChatStore((state) => state.partialTranscription);
   const isThinking = useChatStore((state) => state.isThinking);
   const connectionStatus = useChatStore((state) => state.connectionStatus);
-  const { sendTextMessage } = useWebSocket();
+  const turnTraces = useChatStore((state) => state.turnTraces);
+  const isSpeaking = useChatStore((state) => state.spokenSentence !== null);
+  const isReadOnly = useChatStore(
+    (state) => state.sessions.find((s) => s.id === state.activeSession?.sessionId)?.readOnly ?? false
+  );
+  const setSessionDrawerOpen = useChatStore((state) => state.setSessionDrawerOpen);
+  const { sendTextMessage, retryMessage, discardMessage } = useWebSocket();
+
+  // A turn's timing is shown on its last bubble
+  const traceByTurn = new Map(turnTraces.map((trace) => [trace.turnId, trace]));
 
-  // Auto scroll to bottom
+  // Auto scroll to bottom (while a reply is heard, its bubble keeps the spoken sentence in view)
   useEffect(() => {
+    if (isSpeaking) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, partialTranscription, isThinking]);
+  }, [messages, partialTranscription, isThinking, isSpeaking]);
 
   return (
     <div className="chat-panel flex flex-col h-full glass rounded-2xl overflow-hidden">
       {/* Header */}
       <div className="px-4 py-3 border-b border-white/10 flex items-center justify-between">
         <h2 className="font-semibold flex items-center gap-2">
+          {/* The session sidebar is desktop-only; narrow screens open it as a drawer */}
+          <button
+            onClick={() => setSessionDrawerOpen(true)}
+            className="md:hidden p-1 -ml-1 rounded-lg text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+            title="对话列表"
+          >
+            <PanelLeftOpen size={18} />
+          </button>
           <Sparkles size={18} className="text-primary-400" />
           对话
         </h2>
-        <span className="text-xs opacity-50">
-          {messages.length} 条消息
-        </span>
+        <div className="flex items-center gap-2">
+          {isReadOnly && (
+            <span className="flex items-center gap-1 text-xs text-yellow-400" title="导入的对话为只读">
+              <Lock size={12} />
+              只读
+            </span>
+          )}
+          <span className="text-xs opacity-50">
+            {messages.length} 条消息
+          </span>
+          <TranscriptMenu />
+        </div>
       </div>
 
       {/* Messages */}
@@ -46,8 +74,18 @@ export function ChatPanel() {
             </p>
           </div>
         ) : (
-          messages.map((message) => (
-            <ChatMessage key={message.id} message={message} />
+          messages.map((message, index) => (
+            <ChatMessage
+              key={message.id}
+              message={message}
+              trace={
+                message.turnId && messages[index + 1]?.turnId !== message.turnId
+                  ? traceByTurn.get(message.turnId)
+                  : undefined
+              }
+              onRetry={isReadOnly ? undefined : retryMessage}
+              onDiscard={isReadOnly ? undefined : discardMessage}
+            />
           ))
         )}
 
@@ -89,7 +127,7 @@ export function ChatPanel() {
       </div>
 
       {/* Input */}
-      <ChatInput onSend={sendTextMessage} />
+      <ChatInput onSend={sendTextMessage} disabled={isReadOnly} />
     </div>
   );
 }
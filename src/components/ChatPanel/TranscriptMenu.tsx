@@ -0,0 +1,155 @@
+import { useRef, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import {
+  toTranscriptJson,
+  toTranscriptMarkdown,
+  toTranscriptSrt,
+  parseTranscript,
+  TranscriptError,
+  type TranscriptSource,
+} from '@/utils/transcript';
+import { downloadBlob } from '@/utils/download';
+import { Download, Upload, FileJson, FileText, Subtitles } from 'lucide-react';
+
+type ExportFormat = 'json' | 'markdown' | 'srt';
+
+const exportFormats: Record<
+  ExportFormat,
+  {
+    label: string;
+    extension: string;
+    mimeType: string;
+    icon: React.ComponentType<{ size?: number | string; className?: string }>;
+    render: (source: TranscriptSource) => string;
+  }
+> = {
+  json: {
+    label: 'JSON（可导入）',
+    extension: 'json',
+    mimeType: 'application/json',
+    icon: FileJson,
+    render: toTranscriptJson,
+  },
+  markdown: {
+    label: 'Markdown 文本',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    icon: FileText,
+    render: toTranscriptMarkdown,
+  },
+  srt: {
+    label: '语音字幕 (SRT)',
+    extension: 'srt',
+    mimeType: 'application/x-subrip',
+    icon: Subtitles,
+    render: toTranscriptSrt,
+  },
+};
+
+export function TranscriptMenu() {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Use selectors to avoid subscribing to entire store
+  const messages = useChatStore((state) => state.messages);
+  const activeSession = useChatStore((state) => state.activeSession);
+  const sessions = useChatStore((state) => state.sessions);
+  const characters = useChatStore((state) => state.characters);
+  const importTranscript = useChatStore((state) => state.importTranscript);
+  const setErrorMessage = useChatStore((state) => state.setErrorMessage);
+
+  const session = sessions.find((s) => s.id === activeSession?.sessionId);
+  const canExport = !!session && messages.length > 0;
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    if (!session) return;
+    const config = exportFormats[format];
+    const characterDisplayName =
+      characters.find((c) => c.name === session.character)?.display_name ?? session.character;
+    const content = config.render({ session, characterDisplayName, messages });
+    if (!content) {
+      setErrorMessage('当前对话没有可导出的语音内容');
+      return;
+    }
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(
+      new Blob([content], { type: config.mimeType }),
+      `chat-${session.character}-${date}.${config.extension}`
+    );
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importTranscript(parseTranscript(await file.text()));
+    } catch (error) {
+      console.error('Failed to import transcript:', error);
+      setErrorMessage(
+        error instanceof TranscriptError ? `导入失败：${error.message}` : '导入失败'
+      );
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canExport}
+        className={cn(
+          'p-1.5 rounded-lg text-white/60 hover:bg-white/10 hover:text-white',
+          'transition-colors duration-200',
+          !canExport && 'opacity-50 cursor-not-allowed'
+        )}
+        title="导出对话"
+      >
+        <Download size={16} />
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="p-1.5 rounded-lg text-white/60 hover:bg-white/10 hover:text-white transition-colors duration-200"
+        title="导入对话 (JSON)"
+      >
+        <Upload size={16} />
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleImport}
+      />
+
+      {/* Dropdown */}
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div
+            className={cn(
+              'absolute top-full right-0 mt-2 min-w-[180px]',
+              'glass rounded-lg overflow-hidden z-50',
+              'animate-fade-in'
+            )}
+          >
+            {(Object.keys(exportFormats) as ExportFormat[]).map((format) => {
+              const Icon = exportFormats[format].icon;
+              return (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="w-full flex items-center gap-2 px-4 py-2.5 text-sm text-left hover:bg-white/10 transition-colors duration-150"
+                >
+                  <Icon size={14} className="text-primary-400" />
+                  {exportFormats[format].label}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
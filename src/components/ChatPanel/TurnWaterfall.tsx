@@ -0,0 +1,59 @@
+import { cn } from '@/utils/cn';
+import {
+  computeTimings,
+  formatDuration,
+  traceOrigin,
+  WATERFALL_PHASES,
+  type TurnTrace,
+} from '@/utils/turnTrace';
+
+interface TurnWaterfallProps {
+  trace: TurnTrace;
+}
+
+const phaseColors = ['bg-blue-400', 'bg-purple-400', 'bg-green-400', 'bg-primary-400'];
+
+/**
+ * Waterfall of one turn's pipeline phases, positioned relative to the first event.
+ */
+export function TurnWaterfall({ trace }: TurnWaterfallProps) {
+  const origin = traceOrigin(trace);
+  const spanMs = Math.max(1, Math.max(...Object.values(trace.marks)) - origin);
+  const timings = computeTimings(trace);
+
+  return (
+    <div className="glass rounded-lg p-2 w-64 text-xs space-y-1">
+      {WATERFALL_PHASES.map((phase, index) => {
+        const from = trace.marks[phase.from];
+        const to = trace.marks[phase.to];
+        if (from === undefined) return null;
+        const end = to ?? from;
+        return (
+          <div key={phase.label} className="flex items-center gap-2">
+            <span className="w-8 text-white/50">{phase.label}</span>
+            <div className="relative flex-1 h-2 rounded bg-white/5">
+              <div
+                className={cn('absolute h-2 rounded', phaseColors[index], to === undefined && 'animate-pulse')}
+                style={{
+                  left: `${((from - origin) / spanMs) * 100}%`,
+                  width: `${Math.max(1, ((end - from) / spanMs) * 100)}%`,
+                }}
+              />
+            </div>
+            <span className="w-14 text-right text-white/60">
+              {to === undefined ? '...' : formatDuration(end - from)}
+            </span>
+          </div>
+        );
+      })}
+      <div className="flex justify-between pt-1 border-t border-white/10 text-white/50">
+        <span>首音 {formatDuration(timings.firstAudioMs)}</span>
+        <span>总计 {formatDuration(timings.totalMs)}</span>
+      </div>
+      {trace.serverLlmSeconds !== undefined && (
+        <div className="text-white/40">服务端 LLM {trace.serverLlmSeconds.toFixed(2)} s</div>
+      )}
+      {trace.failed && <div className="text-red-400">本轮以错误结束</div>}
+    </div>
+  );
+}
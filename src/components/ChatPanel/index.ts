@@ -1,3 +1,5 @@
 export { ChatPanel } from './ChatPanel';
 export { ChatMessage } from './ChatMessage';
 export { ChatInput } from './ChatInput';
+export { TranscriptMenu } from './TranscriptMenu';
+export { TurnWaterfall } from './TurnWaterfall';
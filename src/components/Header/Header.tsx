@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { cn } from '@/utils/cn';
 import { useChatStore } from '@/stores/chatStore';
 import { useWebSocket } from '@/hooks/useWebSocket';
@@ -12,8 +12,29 @@ import {
   Settings,
   X,
   Loader2,
+  RefreshCw,
+  Keyboard,
 } from 'lucide-react';
 import { getWsEndpoint } from '@/config/api';
+import type { ReconnectSchedule } from '@/utils/reconnect';
+
+/** Seconds until the next automatic reconnect attempt, ticking while mounted. */
+function ReconnectCountdown({ schedule }: { schedule: ReconnectSchedule }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const seconds = Math.max(0, Math.ceil((schedule.at - now) / 1000));
+
+  return (
+    <span>
+      {seconds > 0 ? `${seconds} 秒后重连` : '重连中...'} ({schedule.attempt}/{schedule.maxAttempts})
+    </span>
+  );
+}
 
 export function Header() {
   const [showSettings, setShowSettings] = useState(false);
@@ -21,19 +42,22 @@ export function Header() {
 
   // Use selectors to avoid subscribing to entire store
   const connectionStatus = useChatStore((state) => state.connectionStatus);
-  const currentCharacter = useChatStore((state) => state.currentCharacter);
+  const reconnectSchedule = useChatStore((state) => state.reconnectSchedule);
   const apiToken = useChatStore((state) => state.apiToken);
   const isDarkMode = useChatStore((state) => state.isDarkMode);
   const setApiToken = useChatStore((state) => state.setApiToken);
   const toggleDarkMode = useChatStore((state) => state.toggleDarkMode);
+  const setHotkeyHelpOpen = useChatStore((state) => state.setHotkeyHelpOpen);
 
   const { connect, disconnect, clearHistory } = useWebSocket();
 
   const handleConnect = () => {
-    if (connectionStatus === 'connected') {
+    if (connectionStatus === 'connected' || reconnectSchedule) {
+      // Also cancels a pending automatic reconnect
       disconnect();
     } else {
-      connect('anon');
+      // Reconnect to the character of the thread on screen (e.g. a session picked while offline)
+      connect(useChatStore.getState().activeSession?.character ?? 'anon');
     }
   };
 
@@ -79,10 +103,16 @@ export function Header() {
               <Loader2 size={14} className="animate-spin" />
             ) : connectionStatus === 'connected' ? (
               <Wifi size={14} />
+            ) : reconnectSchedule ? (
+              <RefreshCw size={14} className="animate-spin" />
             ) : (
               <WifiOff size={14} />
             )}
-            <span>{statusText[connectionStatus]}</span>
+            {reconnectSchedule && connectionStatus !== 'connecting' ? (
+              <ReconnectCountdown key={reconnectSchedule.at} schedule={reconnectSchedule} />
+            ) : (
+              <span>{statusText[connectionStatus]}</span>
+            )}
           </div>
 
           {/* Connect/Disconnect Button */}
@@ -93,14 +123,14 @@ export function Header() {
               'px-4 py-2 rounded-lg text-sm font-medium',
               'transition-all duration-200',
               'focus:outline-none focus:ring-2 focus:ring-primary-500/50',
-              connectionStatus === 'connected'
+              connectionStatus === 'connected' || reconnectSchedule
                 ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
                 : 'bg-primary-500 text-white hover:bg-primary-600',
               (!apiToken || connectionStatus === 'connecting') &&
                 'opacity-50 cursor-not-allowed'
             )}
           >
-            {connectionStatus === 'connected' ? '断开' : '连接'}
+            {connectionStatus === 'connected' ? '断开' : reconnectSchedule ? '取消重连' : '连接'}
           </button>
 
           {/* Clear History */}
@@ -133,6 +163,20 @@ export function Header() {
             {isDarkMode ? <Sun size={18} /> : <Moon size={18} />}
           </button>
 
+          {/* Keyboard shortcuts */}
+          <button
+            onClick={() => setHotkeyHelpOpen(true)}
+            className={cn(
+              'p-2 rounded-lg',
+              'bg-white/5 text-white/60 hover:bg-white/10 hover:text-white',
+              'transition-colors duration-200',
+              'focus:outline-none focus:ring-2 focus:ring-primary-500/50'
+            )}
+            title="快捷键"
+          >
+            <Keyboard size={18} />
+          </button>
+
           {/* Settings */}
           <button
             onClick={() => {
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { HOLD_ACTIONS, HOTKEY_ACTIONS, formatCombo } from '@/utils/hotkeys';
+import { HotkeySettings } from './HotkeySettings';
+import { X } from 'lucide-react';
+
+/** Shortcut list (opened with the show_help shortcut or from the header), with remapping. */
+export function HotkeyHelp() {
+  const isOpen = useChatStore((state) => state.isHotkeyHelpOpen);
+  const hotkeys = useChatStore((state) => state.hotkeys);
+  const setHotkeyHelpOpen = useChatStore((state) => state.setHotkeyHelpOpen);
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (!isOpen) return null;
+
+  const close = () => {
+    setIsEditing(false);
+    setHotkeyHelpOpen(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={close} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md glass rounded-2xl p-6 animate-slide-up">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-semibold">{isEditing ? '自定义快捷键' : '快捷键'}</h2>
+          <button onClick={close} className="p-1 rounded-lg hover:bg-white/10 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {isEditing ? (
+          <HotkeySettings />
+        ) : (
+          <dl className="space-y-2">
+            {HOTKEY_ACTIONS.map(({ action, label }) => (
+              <div key={action} className="flex items-center justify-between text-sm">
+                <dt className="text-white/70">
+                  {label}
+                  {HOLD_ACTIONS.has(action) && <span className="ml-1 text-xs text-white/40">（按住）</span>}
+                </dt>
+                <dd>
+                  <kbd
+                    className={cn(
+                      'px-2 py-0.5 rounded-md text-xs font-mono border border-white/10 bg-white/5',
+                      hotkeys[action] ? 'text-white/80' : 'text-white/30'
+                    )}
+                  >
+                    {formatCombo(hotkeys[action])}
+                  </kbd>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className={cn(
+              'flex-1 px-4 py-2 rounded-lg',
+              'bg-white/5 text-white/70 hover:bg-white/10 hover:text-white',
+              'transition-colors duration-200'
+            )}
+          >
+            {isEditing ? '返回' : '自定义'}
+          </button>
+          <button
+            onClick={close}
+            className={cn(
+              'flex-1 px-4 py-2 rounded-lg',
+              'bg-primary-500 text-white hover:bg-primary-600',
+              'transition-colors duration-200'
+            )}
+          >
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
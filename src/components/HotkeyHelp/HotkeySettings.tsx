@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import {
+  HOTKEY_ACTIONS,
+  comboFromEvent,
+  formatCombo,
+  type HotkeyAction,
+} from '@/utils/hotkeys';
+import { RotateCcw, X } from 'lucide-react';
+
+/** Remap shortcuts: click a binding, press the new combo. */
+export function HotkeySettings() {
+  const hotkeys = useChatStore((state) => state.hotkeys);
+  const setHotkey = useChatStore((state) => state.setHotkey);
+  const resetHotkeys = useChatStore((state) => state.resetHotkeys);
+  const [recording, setRecording] = useState<HotkeyAction | null>(null);
+
+  // Capture the next combo before the global shortcut handler sees it
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      const combo = comboFromEvent(event);
+      // A lone modifier is the start of a combo; wait for the key
+      if (!combo) return;
+      setHotkey(recording, combo);
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, setHotkey]);
+
+  return (
+    <div className="space-y-2">
+      {HOTKEY_ACTIONS.map(({ action, label }) => (
+        <div key={action} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 text-white/70">{label}</span>
+          <button
+            onClick={() => setRecording(recording === action ? null : action)}
+            className={cn(
+              'min-w-[8rem] px-2 py-1 rounded-md text-xs font-mono',
+              'border transition-colors duration-200',
+              recording === action
+                ? 'border-primary-500 text-primary-400 animate-pulse'
+                : 'border-white/10 bg-white/5 text-white/80 hover:bg-white/10',
+              !hotkeys[action] && recording !== action && 'text-white/30'
+            )}
+            title={recording === action ? '再次点击取消' : '点击后按下新的快捷键'}
+          >
+            {recording === action ? '按下快捷键…' : formatCombo(hotkeys[action])}
+          </button>
+          <button
+            onClick={() => setHotkey(action, '')}
+            disabled={!hotkeys[action]}
+            className="p-1 rounded text-white/40 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+            title="取消绑定"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-2">
+        <p className="text-xs text-white/40">
+          {recording
+            ? '已被占用的快捷键会从原操作上移除'
+            : '不含 Ctrl/Alt 的快捷键在输入框中不生效'}
+        </p>
+        <button
+          onClick={() => {
+            setRecording(null);
+            resetHotkeys();
+          }}
+          className="flex items-center gap-1 text-xs text-white/60 hover:text-white"
+        >
+          <RotateCcw size={12} />
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { HotkeyHelp } from './HotkeyHelp';
+export { HotkeySettings } from './HotkeySettings';
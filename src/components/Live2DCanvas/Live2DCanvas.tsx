@@ -1,8 +1,11 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import { useLive2D } from '@/hooks/useLive2D';
 import { useChatStore } from '@/stores/chatStore';
 import { cn } from '@/utils/cn';
-import { Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { Loader2, AlertCircle, RefreshCw, Captions, CaptionsOff } from 'lucide-react';
+import { PlaybackControls } from './PlaybackControls';
+import { SubtitleOverlay } from './SubtitleOverlay';
+import { SubtitleSettings } from './SubtitleSettings';
 
 /** Live2D base: public/live2d/{character}/{modelSet}/model.json; assets under each set's data/ folder. */
 const LIVE2D_BASE = '/live2d';
@@ -53,6 +56,9 @@ export function Live2DCanvas() {
   // Use selectors to avoid subscribing to entire store
   const messages = useChatStore((state) => state.messages);
   const isPlaying = useChatStore((state) => state.isPlaying);
+  const isPlaybackPaused = useChatStore((state) => state.isPlaybackPaused);
+  const subtitlesEnabled = useChatStore((state) => state.subtitleConfig.enabled);
+  const [showSubtitleSettings, setShowSubtitleSettings] = useState(false);
   const lastEmotionRef = useRef<string>('idle');
 
   // Initialize on mount and when primary path changes (character switch). key={primary} on container forces DOM remount so PIXI gets a fresh container.
@@ -166,6 +172,28 @@ export function Live2DCanvas() {
         </div>
       )}
 
+      <SubtitleOverlay />
+
+      {/* Subtitle options */}
+      <div className="absolute top-4 left-4 flex flex-col items-start gap-2">
+        <button
+          onClick={() => setShowSubtitleSettings(!showSubtitleSettings)}
+          className={cn(
+            'p-1.5 rounded-lg bg-black/40 backdrop-blur-sm transition-colors',
+            showSubtitleSettings ? 'text-white' : 'text-white/70 hover:text-white'
+          )}
+          title="字幕设置"
+        >
+          {subtitlesEnabled ? <Captions size={16} /> : <CaptionsOff size={16} />}
+        </button>
+        {showSubtitleSettings && <SubtitleSettings />}
+      </div>
+
+      {/* Reply playback controls */}
+      <div className="absolute top-4 right-4">
+        <PlaybackControls />
+      </div>
+
       {/* Model Info Overlay */}
       {isLoaded && (
         <div className="absolute bottom-4 left-4 right-4 flex justify-between items-end pointer-events-none">
@@ -174,8 +202,8 @@ export function Live2DCanvas() {
           </div>
           {isPlaying && (
             <div className="flex items-center gap-2 text-xs text-primary-400">
-              <span className="w-2 h-2 bg-primary-400 rounded-full animate-pulse" />
-              播放中
+              <span className={cn('w-2 h-2 bg-primary-400 rounded-full', !isPlaybackPaused && 'animate-pulse')} />
+              {isPlaybackPaused ? '已暂停' : '播放中'}
             </div>
           )}
         </div>
@@ -0,0 +1,55 @@
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { PLAYBACK_RATES, playbackControl } from '@/utils/playbackControl';
+import { Pause, Play, RotateCcw, SkipForward } from 'lucide-react';
+
+const buttonClass = cn(
+  'p-1.5 rounded-md transition-colors',
+  'text-white/70 hover:text-white hover:bg-white/10',
+  'disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed'
+);
+
+/**
+ * Controls for the reply being spoken: pause/resume, skip to the next sentence, replay and speed.
+ */
+export function PlaybackControls() {
+  const isPlaying = useChatStore((state) => state.isPlaying);
+  const isPaused = useChatStore((state) => state.isPlaybackPaused);
+  const playbackRate = useChatStore((state) => state.playbackRate);
+  const hasReplyAudio = useChatStore((state) => state.hasReplyAudio);
+
+  if (!hasReplyAudio) return null;
+
+  const nextRate = PLAYBACK_RATES[((PLAYBACK_RATES as readonly number[]).indexOf(playbackRate) + 1) % PLAYBACK_RATES.length];
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 rounded-lg bg-black/40 backdrop-blur-sm">
+      <button
+        onClick={() => (isPaused ? playbackControl.resume() : playbackControl.pause())}
+        disabled={!isPlaying}
+        className={buttonClass}
+        title={isPaused ? '继续' : '暂停'}
+      >
+        {isPaused ? <Play size={16} /> : <Pause size={16} />}
+      </button>
+      <button
+        onClick={() => playbackControl.skip()}
+        disabled={!isPlaying}
+        className={buttonClass}
+        title="跳到下一句"
+      >
+        <SkipForward size={16} />
+      </button>
+      <button onClick={() => playbackControl.replay()} className={buttonClass} title="从头重播">
+        <RotateCcw size={16} />
+      </button>
+      <button
+        onClick={() => playbackControl.setRate(nextRate)}
+        className={cn(buttonClass, 'min-w-10 text-xs tabular-nums')}
+        title="播放速度"
+      >
+        {playbackRate}×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { chatClient } from '@/utils/chatClient';
+import { SUBTITLE_FONTS, userLineDurationMs, type SubtitleConfig } from '@/utils/subtitles';
+import { Mic } from 'lucide-react';
+
+interface SubtitleLine {
+  /** 'reply': sentence of the character being heard; 'user': recognized speech (asr_end). */
+  kind: 'reply' | 'user';
+  cn: string;
+  jp?: string;
+}
+
+/** Main and (smaller) second line of a reply in the configured languages and order. */
+function replyLines(line: SubtitleLine, config: SubtitleConfig): [string, string | undefined] {
+  const jp = line.jp || undefined;
+  if (config.language === 'cn' || !jp) return [line.cn, undefined];
+  if (config.language === 'jp') return [jp, undefined];
+  return config.layout === 'jp_first' ? [jp, line.cn] : [line.cn, jp];
+}
+
+/**
+ * Subtitles over the Live2D stage: the reply sentence being heard (spokenSentence) and/or what
+ * the user just said. A reply line stays for the hold time after its audio, then fades out.
+ */
+export function SubtitleOverlay() {
+  const config = useChatStore((state) => state.subtitleConfig);
+  const spokenSentence = useChatStore((state) => state.spokenSentence);
+  const [line, setLine] = useState<SubtitleLine | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const lineRef = useRef<SubtitleLine | null>(null);
+  const hideTimerRef = useRef<number | null>(null);
+  const showsReply = config.enabled && config.source !== 'user';
+  const showsUser = config.enabled && config.source !== 'reply';
+  const { holdMs } = config;
+
+  useEffect(() => {
+    const clearHideTimer = () => {
+      if (hideTimerRef.current) {
+        clearTimeout(hideTimerRef.current);
+        hideTimerRef.current = null;
+      }
+    };
+    const hideAfter = (ms: number) => {
+      clearHideTimer();
+      hideTimerRef.current = window.setTimeout(() => {
+        hideTimerRef.current = null;
+        setIsVisible(false);
+      }, ms);
+    };
+    const show = (next: SubtitleLine) => {
+      clearHideTimer();
+      lineRef.current = next;
+      setLine(next);
+      setIsVisible(true);
+    };
+
+    if (showsReply) {
+      if (spokenSentence) {
+        const message = useChatStore.getState().messages.find((m) => m.id === spokenSentence.messageId);
+        const segment = message?.segments?.[spokenSentence.segment];
+        show({ kind: 'reply', cn: segment?.content ?? spokenSentence.text, jp: segment?.contentJp });
+      } else if (lineRef.current?.kind === 'reply' && !hideTimerRef.current) {
+        hideAfter(holdMs);
+      }
+    }
+
+    const unsubscribe = chatClient.on('asr_end', ({ text }) => {
+      if (!showsUser || !text.trim()) return;
+      show({ kind: 'user', cn: text });
+      hideAfter(userLineDurationMs(text, holdMs));
+    });
+    return unsubscribe;
+  }, [spokenSentence, showsReply, showsUser, holdMs]);
+
+  // Drop the pending fade when the overlay goes away
+  useEffect(() => {
+    return () => {
+      if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    };
+  }, []);
+
+  if (!config.enabled || !line) return null;
+
+  const [main, second] = line.kind === 'user' ? [line.cn, undefined] : replyLines(line, config);
+
+  return (
+    <div
+      className={cn(
+        'absolute inset-x-4 flex justify-center pointer-events-none',
+        config.position === 'top' ? 'top-16' : 'bottom-12'
+      )}
+      style={{ opacity: isVisible ? 1 : 0, transition: `opacity ${config.fadeMs}ms ease` }}
+      aria-live="polite"
+    >
+      <div
+        className={cn(
+          'max-w-[90%] px-4 py-2 rounded-xl bg-black/45 text-center leading-snug',
+          line.kind === 'user' ? 'text-primary-200' : 'text-white'
+        )}
+        style={{
+          fontFamily: SUBTITLE_FONTS[config.font],
+          fontSize: config.fontSize,
+          textShadow: '0 1px 3px rgba(0, 0, 0, 0.9)',
+        }}
+      >
+        {config.layout === 'inline' || !second ? (
+          <p>
+            {line.kind === 'user' && <Mic size={config.fontSize * 0.7} className="inline-block mr-1.5 -mt-1" />}
+            {main}
+            {second && <span className="ml-3 opacity-80" style={{ fontSize: '0.75em' }}>{second}</span>}
+          </p>
+        ) : (
+          <>
+            <p>{main}</p>
+            <p className="opacity-80" style={{ fontSize: '0.75em' }}>{second}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { DEFAULT_SUBTITLE_CONFIG, SUBTITLE_OPTIONS, type SubtitleConfig } from '@/utils/subtitles';
+
+const choiceFields: { key: keyof typeof SUBTITLE_OPTIONS; label: string }[] = [
+  { key: 'source', label: '显示内容' },
+  { key: 'language', label: '语言' },
+  { key: 'layout', label: '双语排列' },
+  { key: 'position', label: '位置' },
+  { key: 'font', label: '字体' },
+];
+
+const rangeFields: {
+  key: 'fontSize' | 'fadeMs' | 'holdMs';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { key: 'fontSize', label: '字号', min: 14, max: 40, step: 2, format: (v) => `${v} px` },
+  { key: 'fadeMs', label: '淡入淡出', min: 0, max: 1000, step: 50, format: (v) => `${v} ms` },
+  { key: 'holdMs', label: '停留', min: 0, max: 5000, step: 250, format: (v) => `${(v / 1000).toFixed(2)} s` },
+];
+
+/** Options of the stage subtitle overlay; changes apply at once and are saved locally. */
+export function SubtitleSettings() {
+  const config = useChatStore((state) => state.subtitleConfig);
+  const setSubtitleConfig = useChatStore((state) => state.setSubtitleConfig);
+
+  return (
+    <div className="w-64 space-y-2 p-3 rounded-lg bg-black/60 backdrop-blur-sm text-xs">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={config.enabled}
+          onChange={(e) => setSubtitleConfig({ enabled: e.target.checked })}
+          className="accent-primary-500"
+        />
+        <span className="text-white/80">显示字幕</span>
+      </label>
+
+      {choiceFields.map((field) => {
+        // The order only matters when both languages are shown
+        const disabled = !config.enabled || (field.key === 'layout' && config.language !== 'both');
+        return (
+          <div key={field.key} className={cn('flex items-center gap-2', disabled && 'opacity-40')}>
+            <span className="w-14 text-white/60">{field.label}</span>
+            <div className="flex flex-1 rounded-md bg-white/5 p-0.5">
+              {SUBTITLE_OPTIONS[field.key].map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setSubtitleConfig({ [field.key]: option.value } as Partial<SubtitleConfig>)}
+                  disabled={disabled}
+                  className={cn(
+                    'flex-1 px-1 py-0.5 rounded transition-colors disabled:cursor-not-allowed',
+                    config[field.key] === option.value
+                      ? 'bg-primary-500 text-white'
+                      : 'text-white/60 enabled:hover:text-white'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {rangeFields.map((field) => (
+        <label key={field.key} className={cn('flex items-center gap-2', !config.enabled && 'opacity-40')}>
+          <span className="w-14 text-white/60">{field.label}</span>
+          <input
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={config[field.key]}
+            disabled={!config.enabled}
+            onChange={(e) => setSubtitleConfig({ [field.key]: Number(e.target.value) })}
+            className="flex-1 accent-primary-500"
+          />
+          <span className="w-12 text-right text-white/60">{field.format(config[field.key])}</span>
+        </label>
+      ))}
+
+      <div className="flex justify-end text-white/40">
+        <button
+          onClick={() => setSubtitleConfig({ ...DEFAULT_SUBTITLE_CONFIG, enabled: config.enabled })}
+          className="hover:text-white"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useEffect, useMemo, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { useChatStore, type ChatSession } from '@/stores/chatStore';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import {
+  Plus,
+  Search,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  Check,
+  X,
+  PanelLeftClose,
+  PanelLeftOpen,
+} from 'lucide-react';
+
+export function SessionSidebar() {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [query, setQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [titleInput, setTitleInput] = useState('');
+
+  // Use selectors to avoid subscribing to entire store
+  const sessions = useChatStore((state) => state.sessions);
+  const activeSession = useChatStore((state) => state.activeSession);
+  const characters = useChatStore((state) => state.characters);
+  const currentCharacter = useChatStore((state) => state.currentCharacter);
+  const connectionStatus = useChatStore((state) => state.connectionStatus);
+  const loadSessions = useChatStore((state) => state.loadSessions);
+  const createSession = useChatStore((state) => state.createSession);
+  const selectSession = useChatStore((state) => state.selectSession);
+  const updateSession = useChatStore((state) => state.updateSession);
+  const deleteSession = useChatStore((state) => state.deleteSession);
+  const isDrawerOpen = useChatStore((state) => state.isSessionDrawerOpen);
+  const setSessionDrawerOpen = useChatStore((state) => state.setSessionDrawerOpen);
+
+  const { switchCharacter, clearHistory } = useWebSocket();
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const visibleSessions = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return sessions.filter((session) => {
+      if (session.archived !== showArchived) return false;
+      if (!q) return true;
+      return (
+        session.title.toLowerCase().includes(q) ||
+        session.preview.toLowerCase().includes(q) ||
+        session.character.toLowerCase().includes(q)
+      );
+    });
+  }, [sessions, query, showArchived]);
+
+  const getCharacterName = (name: string) =>
+    characters.find((c) => c.name === name)?.display_name ?? name;
+
+  const handleCreate = async () => {
+    const character = currentCharacter?.name ?? activeSession?.character ?? 'anon';
+    setSessionDrawerOpen(false);
+    await createSession(character);
+    // Start the new thread with a clean server-side context as well
+    if (connectionStatus === 'connected') {
+      clearHistory();
+    }
+  };
+
+  const handleSelect = async (session: ChatSession) => {
+    if (editingId) return;
+    setSessionDrawerOpen(false);
+    if (session.id === activeSession?.sessionId) return;
+    await selectSession(session.id);
+    // character_switched reloads the same session, so the thread stays on screen. A read-only
+    // import is only viewed: switching would reload the character's own thread over it
+    if (
+      connectionStatus === 'connected' &&
+      !session.readOnly &&
+      currentCharacter?.name !== session.character
+    ) {
+      switchCharacter(session.character);
+    }
+  };
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setTitleInput(session.title || session.preview);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      updateSession(editingId, { title: titleInput.trim() });
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    const label = session.title || session.preview || '新对话';
+    if (window.confirm(`删除对话「${label}」？此操作无法撤销。`)) {
+      deleteSession(session.id);
+    }
+  };
+
+  // Shared by the desktop sidebar and the narrow-screen drawer
+  const panelBody = (
+    <>
+      {/* Search */}
+      <div className="p-2 border-b border-white/10">
+        <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10">
+          <Search size={14} className="text-white/40 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索对话"
+            className="w-full bg-transparent text-sm placeholder:text-white/30 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {visibleSessions.length === 0 ? (
+          <p className="text-xs text-white/40 text-center py-6">
+            {showArchived ? '没有已归档的对话' : '暂无对话'}
+          </p>
+        ) : (
+          visibleSessions.map((session) => {
+            const isActive = session.id === activeSession?.sessionId;
+            const isEditing = session.id === editingId;
+
+            return (
+              <div
+                key={session.id}
+                onClick={() => handleSelect(session)}
+                className={cn(
+                  'group px-2 py-2 rounded-lg cursor-pointer',
+                  'transition-colors duration-150',
+                  isActive ? 'bg-primary-500/20' : 'hover:bg-white/10'
+                )}
+              >
+                {isEditing ? (
+                  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      autoFocus
+                      value={titleInput}
+                      onChange={(e) => setTitleInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 rounded bg-white/5 border border-white/10 text-sm focus:outline-none focus:border-primary-500/50"
+                    />
+                    <button onClick={commitRename} className="p-1 rounded hover:bg-white/10" title="保存">
+                      <Check size={14} />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 rounded hover:bg-white/10" title="取消">
+                      <X size={14} />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <p className="flex-1 min-w-0 text-sm truncate">
+                        {session.title || session.preview || '新对话'}
+                      </p>
+                      <div
+                        className="flex md:hidden md:group-hover:flex items-center"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <button
+                          onClick={() => startRename(session)}
+                          className="p-1 rounded text-white/50 hover:text-white"
+                          title="重命名"
+                        >
+                          <Pencil size={12} />
+                        </button>
+                        <button
+                          onClick={() => updateSession(session.id, { archived: !session.archived })}
+                          className="p-1 rounded text-white/50 hover:text-white"
+                          title={session.archived ? '取消归档' : '归档'}
+                        >
+                          {session.archived ? <ArchiveRestore size={12} /> : <Archive size={12} />}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(session)}
+                          className="p-1 rounded text-white/50 hover:text-red-400"
+                          title="删除"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-xs opacity-50 mt-0.5 truncate">
+                      {getCharacterName(session.character)} ·{' '}
+                      {new Date(session.updatedAt).toLocaleDateString('zh-CN', {
+                        month: '2-digit',
+                        day: '2-digit',
+                      })}
+                    </p>
+                  </>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Archive toggle */}
+      <button
+        onClick={() => setShowArchived(!showArchived)}
+        className="flex items-center justify-center gap-2 px-3 py-2 border-t border-white/10 text-xs text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+      >
+        <Archive size={14} />
+        {showArchived ? '返回对话列表' : '查看已归档'}
+      </button>
+    </>
+  );
+
+  const drawer = isDrawerOpen && (
+    <div className="md:hidden fixed inset-0 z-40 flex">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setSessionDrawerOpen(false)} />
+      <aside className="relative flex flex-col w-72 max-w-[85%] h-full glass rounded-r-2xl overflow-hidden animate-slide-up">
+        <div className="px-3 py-3 border-b border-white/10 flex items-center justify-between">
+          <h2 className="text-sm font-semibold">对话列表</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleCreate}
+              className="p-1.5 rounded-lg text-primary-400 hover:bg-white/10 transition-colors"
+              title="新建对话"
+            >
+              <Plus size={16} />
+            </button>
+            <button
+              onClick={() => setSessionDrawerOpen(false)}
+              className="p-1.5 rounded-lg text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+              title="关闭"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+        {panelBody}
+      </aside>
+    </div>
+  );
+
+  if (isCollapsed) {
+    return (
+      <>
+        <div className="hidden md:flex flex-col items-center gap-2 py-3 px-1 glass rounded-2xl">
+          <button
+            onClick={() => setIsCollapsed(false)}
+            className="p-2 rounded-lg text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+            title="展开对话列表"
+          >
+            <PanelLeftOpen size={18} />
+          </button>
+          <button
+            onClick={handleCreate}
+            className="p-2 rounded-lg text-primary-400 hover:bg-white/10 transition-colors"
+            title="新建对话"
+          >
+            <Plus size={18} />
+          </button>
+        </div>
+        {drawer}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <aside className="hidden md:flex flex-col w-56 flex-shrink-0 glass rounded-2xl overflow-hidden">
+        {/* Header */}
+        <div className="px-3 py-3 border-b border-white/10 flex items-center justify-between">
+          <h2 className="text-sm font-semibold">对话列表</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleCreate}
+              className="p-1.5 rounded-lg text-primary-400 hover:bg-white/10 transition-colors"
+              title="新建对话"
+            >
+              <Plus size={16} />
+            </button>
+            <button
+              onClick={() => setIsCollapsed(true)}
+              className="p-1.5 rounded-lg text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+              title="收起"
+            >
+              <PanelLeftClose size={16} />
+            </button>
+          </div>
+        </div>
+        {panelBody}
+      </aside>
+      {drawer}
+    </>
+  );
+}
@@ -0,0 +1 @@
+export { SessionSidebar } from './SessionSidebar';
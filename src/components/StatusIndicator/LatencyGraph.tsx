@@ -0,0 +1,76 @@
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { Activity } from 'lucide-react';
+
+const GRAPH_WIDTH = 160;
+const GRAPH_HEIGHT = 32;
+/** Keep the y axis from collapsing on a very fast, flat connection. */
+const MIN_SCALE_MS = 100;
+
+function latencyColor(rttMs: number): string {
+  if (rttMs < 150) return 'text-green-400';
+  if (rttMs < 400) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+/**
+ * Sparkline of heartbeat round trips, with the latest RTT and missed pongs.
+ */
+export function LatencyGraph() {
+  const latencySamples = useChatStore((state) => state.latencySamples);
+  const missedPongs = useChatStore((state) => state.missedPongs);
+  const connectionStatus = useChatStore((state) => state.connectionStatus);
+
+  if (latencySamples.length === 0 && connectionStatus !== 'connected') return null;
+
+  const latest = latencySamples[latencySamples.length - 1];
+  const scale = Math.max(MIN_SCALE_MS, ...latencySamples.map((s) => s.rttMs));
+  const step = latencySamples.length > 1 ? GRAPH_WIDTH / (latencySamples.length - 1) : 0;
+  const points = latencySamples
+    .map((sample, index) => {
+      const x = index * step;
+      const y = GRAPH_HEIGHT - (sample.rttMs / scale) * (GRAPH_HEIGHT - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const average = latencySamples.length
+    ? Math.round(latencySamples.reduce((sum, s) => sum + s.rttMs, 0) / latencySamples.length)
+    : null;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1 text-white/60">
+          <Activity size={12} />
+          延迟
+          {latest ? (
+            <span className={latencyColor(latest.rttMs)}>{latest.rttMs} ms</span>
+          ) : (
+            <span className="text-white/40">测量中...</span>
+          )}
+        </span>
+        {missedPongs > 0 ? (
+          <span className="text-red-400">心跳未响应 {missedPongs}</span>
+        ) : (
+          average !== null && <span className="text-white/40">平均 {average} ms</span>
+        )}
+      </div>
+      {latencySamples.length > 1 && (
+        <svg
+          viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+          preserveAspectRatio="none"
+          className={cn('mt-1 w-full h-8', latest ? latencyColor(latest.rttMs) : 'text-white/40')}
+        >
+          <polyline
+            points={points}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            strokeLinejoin="round"
+          />
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { AudioWaveform } from 'lucide-react';
+
+/**
+ * Jitter buffer state: the adaptive target depth and how often playback ran dry.
+ */
+export function PlaybackBufferStats() {
+  const jitterTargetMs = useChatStore((state) => state.jitterTargetMs);
+  const underrunCount = useChatStore((state) => state.underrunCount);
+
+  return (
+    <div className="mt-2 flex items-center justify-between text-xs text-white/60">
+      <span className="flex items-center gap-1">
+        <AudioWaveform size={12} />
+        播放缓冲
+      </span>
+      <span>
+        目标 {jitterTargetMs} ms ·{' '}
+        <span className={cn(underrunCount > 0 ? 'text-yellow-400' : 'text-white/40')}>
+          欠载 {underrunCount} 次
+        </span>
+      </span>
+    </div>
+  );
+}
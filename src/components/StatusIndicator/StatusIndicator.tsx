@@ -1,8 +1,12 @@
-import { Fragment } from 'react';
+import { Fragment, useState } from 'react';
 import { cn } from '@/utils/cn';
 import { useChatStore } from '@/stores/chatStore';
 import type { PipelineStage } from '@/utils/websocket';
-import { Mic, Brain, Volume2, Check, Loader2 } from 'lucide-react';
+import type { ProtocolViolationKind } from '@/utils/messageSchema';
+import { LatencyGraph } from './LatencyGraph';
+import { TurnTimingStats } from './TurnTimingStats';
+import { PlaybackBufferStats } from './PlaybackBufferStats';
+import { Mic, Brain, Volume2, Check, Loader2, AlertTriangle, ChevronDown } from 'lucide-react';
 
 const stageConfig: Record<
   PipelineStage,
@@ -47,12 +51,24 @@ const stageConfig: Record<
 
 const stages: PipelineStage[] = ['asr', 'llm', 'tts', 'playing'];
 
+const violationKindLabels: Record<ProtocolViolationKind, string> = {
+  invalid_json: '非 JSON',
+  not_object: '非对象',
+  unknown_type: '未知类型',
+  invalid_field: '字段错误',
+  invalid_binary: '二进制帧',
+};
+
 export function StatusIndicator() {
   // Use selectors to avoid subscribing to entire store
   const pipelineStage = useChatStore((state) => state.pipelineStage);
   const isPlaying = useChatStore((state) => state.isPlaying);
   const isThinking = useChatStore((state) => state.isThinking);
   const partialTranscription = useChatStore((state) => state.partialTranscription);
+  const protocolViolations = useChatStore((state) => state.protocolViolations);
+  const protocolViolationCount = useChatStore((state) => state.protocolViolationCount);
+  const clearProtocolViolations = useChatStore((state) => state.clearProtocolViolations);
+  const [showViolations, setShowViolations] = useState(false);
 
   // Playing stage follows isPlaying (same as Live2D) so speaker indicator stays in sync with actual playback
   const effectiveStage: PipelineStage = isPlaying ? 'playing' : pipelineStage;
@@ -169,6 +185,59 @@ export function StatusIndicator() {
             </p>
           </div>
         )}
+
+        {/* Heartbeat round trips */}
+        <LatencyGraph />
+
+        {/* Turn timing percentiles of this conversation */}
+        <TurnTimingStats />
+
+        {/* Jitter buffer depth and underruns */}
+        <PlaybackBufferStats />
+
+        {/* Protocol diagnostics: frames the client rejected */}
+        {protocolViolationCount > 0 && (
+          <div className="mt-2">
+            <div className="flex items-center justify-between text-xs">
+              <button
+                onClick={() => setShowViolations(!showViolations)}
+                className="flex items-center gap-1 text-yellow-400 hover:opacity-80"
+              >
+                <AlertTriangle size={12} />
+                <span>协议异常 {protocolViolationCount}</span>
+                <ChevronDown
+                  size={12}
+                  className={cn('transition-transform duration-200', showViolations && 'rotate-180')}
+                />
+              </button>
+              <button
+                onClick={() => {
+                  clearProtocolViolations();
+                  setShowViolations(false);
+                }}
+                className="text-white/40 hover:text-white"
+              >
+                清除
+              </button>
+            </div>
+            {showViolations && (
+              <ul className="mt-2 max-h-32 overflow-y-auto space-y-1 text-xs font-mono">
+                {[...protocolViolations].reverse().map((violation, index) => (
+                  <li
+                    key={`${violation.at}-${index}`}
+                    className="p-1.5 rounded bg-white/5 text-white/60 break-all"
+                    title={violation.raw}
+                  >
+                    <span className="text-yellow-400">
+                      [{violationKindLabels[violation.kind]}]
+                    </span>{' '}
+                    {new Date(violation.at).toLocaleTimeString('zh-CN')} {violation.detail}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,48 @@
+import { useMemo } from 'react';
+import { useChatStore } from '@/stores/chatStore';
+import { formatDuration, summarizeTimings, type TimingKey } from '@/utils/turnTrace';
+import { Timer } from 'lucide-react';
+
+const timingLabels: Record<TimingKey, string> = {
+  asrMs: 'ASR',
+  llmMs: 'LLM',
+  firstAudioMs: '首音',
+  totalMs: '总计',
+};
+
+/**
+ * p50/p90 of the turn timings in the active conversation.
+ */
+export function TurnTimingStats() {
+  const messages = useChatStore((state) => state.messages);
+  const turnTraces = useChatStore((state) => state.turnTraces);
+
+  const summary = useMemo(() => {
+    const turnIds = new Set(messages.map((m) => m.turnId).filter(Boolean));
+    const traces = turnTraces.filter((t) => t.turnId && turnIds.has(t.turnId));
+    return traces.length > 0 ? summarizeTimings(traces) : null;
+  }, [messages, turnTraces]);
+
+  if (!summary) return null;
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex items-center justify-between text-white/60">
+        <span className="flex items-center gap-1">
+          <Timer size={12} />
+          轮次耗时
+        </span>
+        <span className="text-white/40">p50 / p90 · {summary.totalMs.count} 轮</span>
+      </div>
+      <div className="mt-1 grid grid-cols-4 gap-1">
+        {(Object.keys(timingLabels) as TimingKey[]).map((key) => (
+          <div key={key} className="p-1.5 rounded bg-white/5 text-center">
+            <div className="text-white/40">{timingLabels[key]}</div>
+            <div className="text-white/80">{formatDuration(summary[key].p50)}</div>
+            <div className="text-white/40">{formatDuration(summary[key].p90)}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { isOutputSelectionSupported, listAudioDevices, type AudioDeviceLists } from '@/utils/audioDevices';
+import { Volume2, VolumeX } from 'lucide-react';
+
+const selectClass = cn(
+  'flex-1 min-w-0 px-2 py-1 rounded-md text-xs',
+  'bg-white/5 border border-white/10 text-white/80',
+  'focus:outline-none focus:ring-1 focus:ring-primary-500/50'
+);
+
+/**
+ * Microphone and speaker selection plus the master reply volume; all choices are persisted.
+ */
+export function AudioDeviceSettings() {
+  const audioInputDeviceId = useChatStore((state) => state.audioInputDeviceId);
+  const audioOutputDeviceId = useChatStore((state) => state.audioOutputDeviceId);
+  const outputVolume = useChatStore((state) => state.outputVolume);
+  const isOutputMuted = useChatStore((state) => state.isOutputMuted);
+  const setAudioInputDeviceId = useChatStore((state) => state.setAudioInputDeviceId);
+  const setAudioOutputDeviceId = useChatStore((state) => state.setAudioOutputDeviceId);
+  const setOutputVolume = useChatStore((state) => state.setOutputVolume);
+  const toggleOutputMuted = useChatStore((state) => state.toggleOutputMuted);
+  const [devices, setDevices] = useState<AudioDeviceLists>({ inputs: [], outputs: [] });
+  const canSelectOutput = isOutputSelectionSupported();
+
+  const refresh = useCallback(() => {
+    listAudioDevices()
+      .then(setDevices)
+      .catch((error) => console.error('Failed to list audio devices:', error));
+  }, []);
+
+  // Plugging or unplugging a headset updates the lists
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const hasLabels = [...devices.inputs, ...devices.outputs].some((d) => d.label);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <label className="flex items-center gap-2">
+        <span className="w-16 text-white/60">麦克风</span>
+        <select
+          value={audioInputDeviceId}
+          onChange={(e) => setAudioInputDeviceId(e.target.value)}
+          className={selectClass}
+        >
+          <option value="">系统默认</option>
+          {devices.inputs.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `麦克风 ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <span className="w-16 text-white/60">扬声器</span>
+        <select
+          value={audioOutputDeviceId}
+          onChange={(e) => setAudioOutputDeviceId(e.target.value)}
+          disabled={!canSelectOutput}
+          className={cn(selectClass, !canSelectOutput && 'opacity-50')}
+          title={canSelectOutput ? undefined : '当前浏览器不支持选择输出设备'}
+        >
+          <option value="">系统默认</option>
+          {devices.outputs.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `扬声器 ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex items-center gap-2">
+        <span className="w-16 text-white/60">音量</span>
+        <button
+          onClick={toggleOutputMuted}
+          className={cn('p-1 rounded hover:bg-white/10', isOutputMuted ? 'text-red-400' : 'text-white/60')}
+          title={isOutputMuted ? '取消静音' : '静音'}
+        >
+          {isOutputMuted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={outputVolume}
+          onChange={(e) => setOutputVolume(Number(e.target.value))}
+          className="flex-1 accent-primary-500"
+        />
+        <span className="w-14 text-right text-white/60">
+          {isOutputMuted ? '静音' : `${Math.round(outputVolume * 100)}%`}
+        </span>
+      </div>
+
+      {!hasLabels && (devices.inputs.length > 0 || devices.outputs.length > 0) && (
+        <p className="text-white/40">授权麦克风后显示设备名称</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useChatStore } from '@/stores/chatStore';
+import { chatClient } from '@/utils/chatClient';
+import { AUDIO_CONFIG } from '@/utils/audio';
+import { isOpusEncodingSupported } from '@/utils/opusEncoder';
+
+/**
+ * Opus upload toggle; takes effect on the next connect and falls back to PCM when the browser
+ * or the server cannot do Opus.
+ */
+export function AudioUploadSetting() {
+  const audioUploadFormat = useChatStore((state) => state.audioUploadFormat);
+  const setAudioUploadFormat = useChatStore((state) => state.setAudioUploadFormat);
+  const isConnected = useChatStore((state) => state.connectionStatus === 'connected');
+  const [supported, setSupported] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    isOpusEncodingSupported(AUDIO_CONFIG.sampleRate).then(setSupported);
+  }, []);
+
+  const enabled = audioUploadFormat === 'opus';
+  let note = '服务器不支持时自动使用 PCM，重新连接后生效';
+  if (supported === false) {
+    note = '当前浏览器不支持 Opus 编码，使用 PCM 上传';
+  } else if (enabled && isConnected) {
+    note = chatClient.uploadFormat === 'opus' ? '当前连接：Opus' : '当前连接：PCM';
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={enabled && supported !== false}
+          disabled={supported === false}
+          onChange={(e) => setAudioUploadFormat(e.target.checked ? 'opus' : 'pcm_s16le')}
+          className="accent-primary-500"
+        />
+        <span className="text-white/60">压缩上传 (Opus)</span>
+      </label>
+      <p className="text-white/40">{note}</p>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { cn } from '@/utils/cn';
+import { useChatStore } from '@/stores/chatStore';
+import { AUDIO_CONFIG, calculateRMS, encodeWav, float32ToInt16, normalizeVolume } from '@/utils/audio';
+import { createCaptureNode, type CaptureNode } from '@/utils/captureNode';
+import { applyOutputDevice, getMicrophoneStream } from '@/utils/audioDevices';
+import {
+  CALIBRATION_SAMPLE_SECONDS,
+  analyzeMicSample,
+  calibrationFromAnalysis,
+  type MicLevelAnalysis,
+  type MicLevelVerdict,
+} from '@/utils/micCalibration';
+import { AlertTriangle, CheckCircle2, Loader2, Mic, Play, X } from 'lucide-react';
+
+type WizardStep = 'requesting' | 'denied' | 'error' | 'monitoring' | 'recording' | 'result';
+
+const verdictText: Record<MicLevelVerdict, string> = {
+  ok: '电平正常',
+  no_signal: '没有检测到声音，请检查麦克风是否静音或选错设备',
+  too_low: '音量偏低，校准会提高输入增益；也可以靠近麦克风',
+  clipping: '音量过大出现削波，请远离麦克风或降低系统输入音量',
+  noisy: '背景噪声较大，自动模式可能误触发',
+};
+
+const actionButtonClass = cn(
+  'flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm',
+  'transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed'
+);
+
+interface MicSetupWizardProps {
+  onClose: () => void;
+}
+
+/**
+ * Microphone check: permission, live level, a short test recording played back, and a
+ * gain/VAD calibration derived from it.
+ */
+export function MicSetupWizard({ onClose }: MicSetupWizardProps) {
+  const micCalibration = useChatStore((state) => state.micCalibration);
+  const setMicCalibration = useChatStore((state) => state.setMicCalibration);
+  const setVadConfig = useChatStore((state) => state.setVadConfig);
+
+  const [step, setStep] = useState<WizardStep>('requesting');
+  const [level, setLevel] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [analysis, setAnalysis] = useState<MicLevelAnalysis | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<CaptureNode | null>(null);
+  /** Frames collected while recording the test sample; null when not recording. */
+  const recordingRef = useRef<Float32Array[] | null>(null);
+  const sampleRef = useRef<Float32Array | null>(null);
+  const playbackRef = useRef<HTMLAudioElement | null>(null);
+
+  const stopSamplePlayback = useCallback(() => {
+    const audio = playbackRef.current;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      playbackRef.current = null;
+    }
+  }, []);
+
+  const playSample = useCallback(async () => {
+    const sample = sampleRef.current;
+    if (!sample) return;
+    stopSamplePlayback();
+    const audio = new Audio(URL.createObjectURL(encodeWav(float32ToInt16(sample), AUDIO_CONFIG.sampleRate)));
+    const { audioOutputDeviceId } = useChatStore.getState();
+    if (audioOutputDeviceId) await applyOutputDevice(audio, audioOutputDeviceId);
+    playbackRef.current = audio;
+    audio.onended = stopSamplePlayback;
+    await audio.play().catch((error) => console.error('Failed to play test sample:', error));
+  }, [stopSamplePlayback]);
+
+  // Recording finished: analyse and play the sample back
+  const finishRecording = useCallback((frames: Float32Array[]) => {
+    const length = frames.reduce((sum, frame) => sum + frame.length, 0);
+    const sample = new Float32Array(length);
+    let offset = 0;
+    for (const frame of frames) {
+      sample.set(frame, offset);
+      offset += frame.length;
+    }
+    sampleRef.current = sample;
+    setAnalysis(analyzeMicSample(sample, AUDIO_CONFIG.sampleRate));
+    setStep('result');
+    playSample();
+  }, [playSample]);
+
+  // Open the microphone (raw, no calibration gain) and keep the level meter running
+  useEffect(() => {
+    let cancelled = false;
+    const targetSamples = CALIBRATION_SAMPLE_SECONDS * AUDIO_CONFIG.sampleRate;
+
+    (async () => {
+      try {
+        const stream = await getMicrophoneStream(useChatStore.getState().audioInputDeviceId, {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+          sampleRate: AUDIO_CONFIG.sampleRate,
+          channelCount: AUDIO_CONFIG.channelCount,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        const audioContext = new AudioContext({ sampleRate: AUDIO_CONFIG.sampleRate });
+        audioContextRef.current = audioContext;
+        const source = audioContext.createMediaStreamSource(stream);
+        captureRef.current = await createCaptureNode(audioContext, source, {
+          targetSampleRate: AUDIO_CONFIG.sampleRate,
+          frameSamples: Math.round(0.05 * AUDIO_CONFIG.sampleRate),
+          onFrame: ({ samples }) => {
+            setLevel(normalizeVolume(calculateRMS(samples)));
+            const recording = recordingRef.current;
+            if (!recording) return;
+            recording.push(samples);
+            const recorded = recording.reduce((sum, frame) => sum + frame.length, 0);
+            setProgress(Math.min(1, recorded / targetSamples));
+            if (recorded >= targetSamples) {
+              recordingRef.current = null;
+              finishRecording(recording);
+            }
+          },
+        });
+        if (!cancelled) setStep('monitoring');
+      } catch (error) {
+        console.error('Microphone setup failed:', error);
+        if (cancelled) return;
+        setStep(error instanceof DOMException && error.name === 'NotAllowedError' ? 'denied' : 'error');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      recordingRef.current = null;
+      captureRef.current?.stop();
+      captureRef.current = null;
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+      stopSamplePlayback();
+    };
+  }, [finishRecording, stopSamplePlayback]);
+
+  const startRecording = () => {
+    stopSamplePlayback();
+    setAnalysis(null);
+    setProgress(0);
+    recordingRef.current = [];
+    setStep('recording');
+  };
+
+  const calibration = analysis ? calibrationFromAnalysis(analysis) : null;
+
+  const applyCalibration = () => {
+    if (!calibration) return;
+    setMicCalibration(calibration);
+    // Auto mode passes its own thresholds, so keep its energy threshold in step
+    setVadConfig({ energyThreshold: calibration.energyThreshold });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md glass rounded-2xl p-6 animate-slide-up">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-semibold">麦克风测试</h2>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-white/10 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {step === 'requesting' && (
+          <div className="flex items-center gap-2 text-sm text-white/60">
+            <Loader2 size={16} className="animate-spin" />
+            正在请求麦克风权限…
+          </div>
+        )}
+
+        {step === 'denied' && (
+          <p className="text-sm text-yellow-400">麦克风权限被拒绝，请在浏览器地址栏的权限设置中允许后重试。</p>
+        )}
+
+        {step === 'error' && <p className="text-sm text-red-400">无法打开麦克风，请检查设备是否连接。</p>}
+
+        {(step === 'monitoring' || step === 'recording' || step === 'result') && (
+          <div className="space-y-4">
+            {/* Live level */}
+            <div>
+              <div className="flex items-center justify-between text-xs text-white/60 mb-1">
+                <span className="flex items-center gap-1">
+                  <Mic size={12} />
+                  输入电平
+                </span>
+                <span>{Math.round(level * 100)}%</span>
+              </div>
+              <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                <div
+                  className={cn(
+                    'h-full transition-[width] duration-75',
+                    level > 0.9 ? 'bg-red-500' : level > 0.1 ? 'bg-green-500' : 'bg-white/30'
+                  )}
+                  style={{ width: `${level * 100}%` }}
+                />
+              </div>
+            </div>
+
+            {step === 'monitoring' && (
+              <p className="text-xs text-white/50">
+                点击“录制”后用平常的音量说一句话，录制 {CALIBRATION_SAMPLE_SECONDS} 秒后会自动回放。
+              </p>
+            )}
+
+            {step === 'recording' && (
+              <div>
+                <p className="text-xs text-red-400 mb-1">录制中，请说话…</p>
+                <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full bg-red-500" style={{ width: `${progress * 100}%` }} />
+                </div>
+              </div>
+            )}
+
+            {step === 'result' && analysis && (
+              <div className="space-y-2 text-xs">
+                <p
+                  className={cn(
+                    'flex items-center gap-1.5',
+                    analysis.verdict === 'ok' ? 'text-green-400' : 'text-yellow-400'
+                  )}
+                >
+                  {analysis.verdict === 'ok' ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />}
+                  {verdictText[analysis.verdict]}
+                </p>
+                <div className="grid grid-cols-3 gap-1 text-center">
+                  <div className="p-1.5 rounded bg-white/5">
+                    <div className="text-white/40">峰值</div>
+                    <div className="text-white/80">{Math.round(analysis.peak * 100)}%</div>
+                  </div>
+                  <div className="p-1.5 rounded bg-white/5">
+                    <div className="text-white/40">语音</div>
+                    <div className="text-white/80">{analysis.speechRms.toFixed(3)}</div>
+                  </div>
+                  <div className="p-1.5 rounded bg-white/5">
+                    <div className="text-white/40">噪声</div>
+                    <div className="text-white/80">{analysis.noiseRms.toFixed(3)}</div>
+                  </div>
+                </div>
+                {calibration && (
+                  <p className="text-white/60">
+                    建议：输入增益 {calibration.inputGain}×，自动模式能量阈值 {calibration.energyThreshold}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {micCalibration && (
+              <div className="flex items-center justify-between text-xs text-white/40">
+                <span>
+                  当前校准：增益 {micCalibration.inputGain}×，阈值 {micCalibration.energyThreshold}
+                </span>
+                <button onClick={() => setMicCalibration(null)} className="hover:text-white">
+                  清除
+                </button>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={startRecording}
+                disabled={step === 'recording'}
+                className={cn(actionButtonClass, 'bg-white/5 text-white/70 hover:bg-white/10 hover:text-white')}
+              >
+                <Mic size={16} />
+                {step === 'result' ? '重新录制' : '录制'}
+              </button>
+              {step === 'result' && (
+                <button
+                  onClick={playSample}
+                  className={cn(actionButtonClass, 'bg-white/5 text-white/70 hover:bg-white/10 hover:text-white')}
+                >
+                  <Play size={16} />
+                  回放
+                </button>
+              )}
+              {step === 'result' && (
+                <button
+                  onClick={applyCalibration}
+                  disabled={!calibration}
+                  className={cn(actionButtonClass, 'bg-primary-500 text-white hover:bg-primary-600')}
+                >
+                  应用校准
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
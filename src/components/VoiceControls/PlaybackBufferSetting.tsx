@@ -0,0 +1,26 @@
+import { useChatStore } from '@/stores/chatStore';
+import { DEFAULT_JITTER_BUFFER_CONFIG } from '@/utils/jitterBuffer';
+
+/**
+ * Pre-roll of the playback jitter buffer; more buffering means fewer gaps but a later start.
+ */
+export function PlaybackBufferSetting() {
+  const playbackPreRollMs = useChatStore((state) => state.playbackPreRollMs);
+  const setPlaybackPreRollMs = useChatStore((state) => state.setPlaybackPreRollMs);
+
+  return (
+    <label className="flex items-center gap-2 text-xs">
+      <span className="w-16 text-white/60">播放预缓冲</span>
+      <input
+        type="range"
+        min={0}
+        max={DEFAULT_JITTER_BUFFER_CONFIG.maxDepthMs}
+        step={20}
+        value={playbackPreRollMs}
+        onChange={(e) => setPlaybackPreRollMs(Number(e.target.value))}
+        className="flex-1 accent-primary-500"
+      />
+      <span className="w-14 text-right text-white/60">{playbackPreRollMs} ms</span>
+    </label>
+  );
+}
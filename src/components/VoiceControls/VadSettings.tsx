@@ -0,0 +1,50 @@
+import { useChatStore } from '@/stores/chatStore';
+import { DEFAULT_VAD_CONFIG, type VadConfig } from '@/utils/vad';
+
+const fields: {
+  key: keyof VadConfig;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { key: 'energyThreshold', label: '能量阈值', min: 0.005, max: 0.1, step: 0.005, format: (v) => v.toFixed(3) },
+  { key: 'maxZeroCrossingRate', label: '过零率上限', min: 0.05, max: 0.5, step: 0.01, format: (v) => v.toFixed(2) },
+  { key: 'minSpeechMs', label: '起始判定', min: 50, max: 600, step: 50, format: (v) => `${v} ms` },
+  { key: 'hangoverMs', label: '静音判定', min: 200, max: 2000, step: 100, format: (v) => `${v} ms` },
+];
+
+/**
+ * Threshold sliders of the local VAD mode; changes apply the next time the mode starts.
+ */
+export function VadSettings() {
+  const vadConfig = useChatStore((state) => state.vadConfig);
+  const setVadConfig = useChatStore((state) => state.setVadConfig);
+
+  return (
+    <div className="space-y-2 text-xs">
+      {fields.map((field) => (
+        <label key={field.key} className="flex items-center gap-2">
+          <span className="w-16 text-white/60">{field.label}</span>
+          <input
+            type="range"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={vadConfig[field.key]}
+            onChange={(e) => setVadConfig({ [field.key]: Number(e.target.value) })}
+            className="flex-1 accent-primary-500"
+          />
+          <span className="w-14 text-right text-white/60">{field.format(vadConfig[field.key])}</span>
+        </label>
+      ))}
+      <div className="flex items-center justify-between text-white/40">
+        <span>修改将在下次开启自动模式时生效</span>
+        <button onClick={() => setVadConfig(DEFAULT_VAD_CONFIG)} className="hover:text-white">
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,26 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { cn } from '@/utils/cn';
-import { useChatStore, type VoiceMode } from '@/stores/chatStore';
+import { useChatStore } from '@/stores/chatStore';
 import { useAudioRecorder } from '@/hooks/useAudioRecorder';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import type { VadEvent } from '@/utils/vad';
+import { hotkeyCommands } from '@/utils/hotkeys';
+import { VadSettings } from './VadSettings';
+import { AudioUploadSetting } from './AudioUploadSetting';
+import { PlaybackBufferSetting } from './PlaybackBufferSetting';
+import { AudioDeviceSettings } from './AudioDeviceSettings';
+import { MicSetupWizard } from './MicSetupWizard';
 import {
   Mic,
   MicOff,
   Phone,
   PhoneOff,
-  Square,
   Loader2,
   AlertCircle,
+  AudioLines,
+  Radio,
+  Settings2,
+  SlidersHorizontal,
 } from 'lucide-react';
 
 export function VoiceControls() {
@@ -21,18 +31,32 @@ export function VoiceControls() {
   const isThinking = useChatStore((state) => state.isThinking);
   const volumeLevel = useChatStore((state) => state.volumeLevel);
   const setVoiceMode = useChatStore((state) => state.setVoiceMode);
+  const isSpeechDetected = useChatStore((state) => state.isSpeechDetected);
+  const audioStreamStatus = useChatStore((state) => state.audioStreamStatus);
+  const partialTranscription = useChatStore((state) => state.partialTranscription);
+  const setIsSpeechDetected = useChatStore((state) => state.setIsSpeechDetected);
+  const setErrorMessage = useChatStore((state) => state.setErrorMessage);
+  const isReadOnly = useChatStore(
+    (state) => state.sessions.find((s) => s.id === state.activeSession?.sessionId)?.readOnly ?? false
+  );
 
   const {
     sendAudioMessage,
+    startAudioStream,
+    sendAudioStreamChunk,
+    endAudioStream,
     startVoiceCall,
     sendVoiceCallChunk,
     stopVoiceCall,
+    interrupt,
   } = useWebSocket();
 
   const [streamingChunkHandler, setStreamingChunkHandler] = useState<
-    ((base64: string) => void) | null
+    ((pcm: Int16Array) => void) | null
   >(null);
 
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [showMicSetup, setShowMicSetup] = useState(false);
   const longPressTimerRef = useRef<number | null>(null);
   const isPressedRef = useRef(false);
 
@@ -44,10 +68,10 @@ export function VoiceControls() {
     });
 
   const isDisabled =
-    connectionStatus !== 'connected' || isThinking || !isSupported;
+    connectionStatus !== 'connected' || isThinking || !isSupported || isReadOnly;
 
-  // Push-to-talk: Start recording
-  const handlePushToTalkStart = useCallback(async () => {
+  // Push-to-talk: Start recording (streamed while held in 'push-to-talk-stream')
+  const handlePushToTalkStart = useCallback(async (mode: 'push-to-talk' | 'push-to-talk-stream') => {
     if (isDisabled) return;
     
     isPressedRef.current = true;
@@ -55,19 +79,37 @@ export function VoiceControls() {
     // Use long press timer to differentiate from click
     longPressTimerRef.current = window.setTimeout(async () => {
       if (isPressedRef.current) {
-        setVoiceMode('push-to-talk');
+        setVoiceMode(mode);
         try {
-          await startRecording();
+          if (mode === 'push-to-talk-stream') {
+            if (!startAudioStream()) {
+              setErrorMessage('无法开始流式录音：连接不可用');
+              setVoiceMode('idle');
+              return;
+            }
+            await startRecording({ onChunk: sendAudioStreamChunk });
+          } else {
+            await startRecording();
+          }
+          // Released while the microphone was being acquired: the release found nothing to stop yet
+          if (!isPressedRef.current) {
+            await stopRecording();
+            if (mode === 'push-to-talk-stream') endAudioStream();
+            setVoiceMode('idle');
+          }
         } catch (error) {
           console.error('Failed to start recording:', error);
+          if (mode === 'push-to-talk-stream') endAudioStream();
           setVoiceMode('idle');
         }
       }
     }, 150);
-  }, [isDisabled, setVoiceMode, startRecording]);
+  }, [isDisabled, setVoiceMode, setErrorMessage, startRecording, stopRecording, startAudioStream, sendAudioStreamChunk, endAudioStream]);
 
   // Push-to-talk: Stop recording and send
-  const handlePushToTalkEnd = useCallback(() => {
+  const handlePushToTalkEnd = useCallback(async () => {
+    // mouseup is followed by mouseleave; only the first release stops (the last frame is still on its way)
+    if (!isPressedRef.current) return;
     isPressedRef.current = false;
     
     if (longPressTimerRef.current) {
@@ -76,33 +118,50 @@ export function VoiceControls() {
     }
 
     if (voiceMode === 'push-to-talk' && isRecording) {
-      const audioData = stopRecording();
-      if (audioData) {
-        sendAudioMessage(audioData);
+      const recording = await stopRecording();
+      if (recording.length > 0) {
+        sendAudioMessage(recording);
       }
       setVoiceMode('idle');
+    } else if (voiceMode === 'push-to-talk-stream' && isRecording) {
+      // Every chunk already went out through onChunk
+      await stopRecording();
+      endAudioStream();
+      setVoiceMode('idle');
+    }
+  }, [voiceMode, isRecording, stopRecording, sendAudioMessage, endAudioStream, setVoiceMode]);
+
+  // Voice call barge-in: the user starting to talk cancels the reply being generated or spoken
+  const handleVoiceActivity = useCallback((event: VadEvent) => {
+    if (event !== 'speech_start') return;
+    const { isPlaying, pipelineStage } = useChatStore.getState();
+    if (isPlaying || pipelineStage === 'llm' || pipelineStage === 'tts') {
+      interrupt();
     }
-  }, [voiceMode, isRecording, stopRecording, sendAudioMessage, setVoiceMode]);
+  }, [interrupt]);
 
   // Voice call: Toggle (streaming chunks to backend)
   const handleVoiceCallToggle = useCallback(async () => {
     if (isDisabled) return;
 
     if (voiceMode === 'voice_call') {
+      await stopRecording();
       stopVoiceCall();
-      stopRecording();
       setStreamingChunkHandler(null);
       setVoiceMode('idle');
     } else {
       setVoiceMode('voice_call');
       startVoiceCall();
 
-      setStreamingChunkHandler(() => (base64: string) => {
-        sendVoiceCallChunk(base64);
+      setStreamingChunkHandler(() => (pcm: Int16Array) => {
+        sendVoiceCallChunk(pcm);
       });
 
       try {
-        await startRecording({ onChunk: (base64) => sendVoiceCallChunk(base64) });
+        await startRecording({
+          onChunk: (pcm) => sendVoiceCallChunk(pcm),
+          onVoiceActivity: handleVoiceActivity,
+        });
       } catch (error) {
         console.error('Failed to start voice call:', error);
         setVoiceMode('idle');
@@ -117,17 +176,69 @@ export function VoiceControls() {
     startVoiceCall,
     sendVoiceCallChunk,
     stopVoiceCall,
+    handleVoiceActivity,
+    setVoiceMode,
+  ]);
+
+  // Local VAD: listen continuously and send each detected utterance as one audio message
+  const handleVadToggle = useCallback(async () => {
+    if (voiceMode === 'vad') {
+      cancelRecording();
+      setIsSpeechDetected(false);
+      setVoiceMode('idle');
+      return;
+    }
+    if (isDisabled) return;
+
+    setVoiceMode('vad');
+    try {
+      await startRecording({
+        vad: useChatStore.getState().vadConfig,
+        onVoiceActivity: (event) => setIsSpeechDetected(event === 'speech_start'),
+        onUtterance: (pcm) => {
+          // While the reply is generated or played the mic mostly hears the character (echo)
+          const { isThinking: busy, isPlaying, pipelineStage } = useChatStore.getState();
+          if (busy || isPlaying || pipelineStage !== 'idle') return;
+          sendAudioMessage(pcm);
+        },
+      });
+    } catch (error) {
+      console.error('Failed to start VAD mode:', error);
+      setVoiceMode('idle');
+    }
+  }, [
+    voiceMode,
+    isDisabled,
+    startRecording,
+    cancelRecording,
+    sendAudioMessage,
     setVoiceMode,
+    setIsSpeechDetected,
   ]);
 
-  // Cancel any recording on mode change or disconnect
+  // Keyboard shortcuts (useHotkeys) drive the same handlers as the buttons
+  useEffect(() => {
+    const unsubscribers = [
+      hotkeyCommands.on('talk_start', (mode) => {
+        if (voiceMode === 'idle') handlePushToTalkStart(mode);
+      }),
+      hotkeyCommands.on('talk_end', handlePushToTalkEnd),
+      hotkeyCommands.on('toggle_voice_call', () => {
+        if (voiceMode === 'idle' || voiceMode === 'voice_call') handleVoiceCallToggle();
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [voiceMode, handlePushToTalkStart, handlePushToTalkEnd, handleVoiceCallToggle]);
+
+  // Cancel any recording on mode change or disconnect (the client drops an open audio stream)
   useEffect(() => {
     if (connectionStatus !== 'connected' && isRecording) {
       cancelRecording();
       setVoiceMode('idle');
       setStreamingChunkHandler(null);
+      setIsSpeechDetected(false);
     }
-  }, [connectionStatus, isRecording, cancelRecording, setVoiceMode]);
+  }, [connectionStatus, isRecording, cancelRecording, setVoiceMode, setIsSpeechDetected]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -160,17 +271,17 @@ export function VoiceControls() {
     <div className="flex flex-col gap-3 p-4 border-t border-white/10">
       {/* Hint */}
       <p className="text-xs text-white/50">
-        单句：按住说话 | 通话：点击开始/结束
+        单句：按住说话 | 流式：按住说话，边说边识别 | 自动：检测到说话自动发送 | 通话：点击开始/结束，角色说话时开口即可打断
       </p>
       <div className="flex items-center gap-3">
         {/* Single-sentence (push-to-talk) */}
         <button
-          onMouseDown={handlePushToTalkStart}
+          onMouseDown={() => handlePushToTalkStart('push-to-talk')}
           onMouseUp={handlePushToTalkEnd}
           onMouseLeave={handlePushToTalkEnd}
-          onTouchStart={handlePushToTalkStart}
+          onTouchStart={() => handlePushToTalkStart('push-to-talk')}
           onTouchEnd={handlePushToTalkEnd}
-          disabled={isDisabled || voiceMode === 'voice_call'}
+          disabled={isDisabled || voiceMode === 'voice_call' || voiceMode === 'vad'}
           className={cn(
             'relative flex items-center justify-center',
             'w-14 h-14 rounded-full',
@@ -193,6 +304,32 @@ export function VoiceControls() {
           )}
         </button>
 
+        {/* Streaming push-to-talk: audio goes out while held, so recognition runs alongside */}
+        <button
+          onMouseDown={() => handlePushToTalkStart('push-to-talk-stream')}
+          onMouseUp={handlePushToTalkEnd}
+          onMouseLeave={handlePushToTalkEnd}
+          onTouchStart={() => handlePushToTalkStart('push-to-talk-stream')}
+          onTouchEnd={handlePushToTalkEnd}
+          disabled={isDisabled || voiceMode === 'voice_call' || voiceMode === 'vad'}
+          className={cn(
+            'relative flex items-center justify-center',
+            'w-11 h-11 rounded-full',
+            'transition-all duration-200',
+            'focus:outline-none focus:ring-2 focus:ring-primary-500/50',
+            voiceMode === 'push-to-talk-stream'
+              ? 'bg-red-500 text-white scale-110'
+              : 'bg-primary-500/20 text-primary-400 hover:bg-primary-500/30',
+            isDisabled && 'opacity-50 cursor-not-allowed'
+          )}
+          title="流式语音：按住说话，边说边识别"
+        >
+          {voiceMode === 'push-to-talk-stream' && (
+            <span className="absolute inset-0 rounded-full bg-red-500 pulse-ring" />
+          )}
+          <Radio size={20} className="relative" />
+        </button>
+
         {/* Volume indicator (when recording) */}
         {isRecording && (
           <div className="flex items-center gap-1 h-8">
@@ -213,10 +350,41 @@ export function VoiceControls() {
 
         <div className="w-px h-8 bg-white/10" />
 
+        {/* Local VAD: toggle */}
+        <button
+          onClick={handleVadToggle}
+          disabled={voiceMode !== 'vad' && (isDisabled || voiceMode !== 'idle')}
+          className={cn(
+            'flex items-center gap-2 px-4 py-2 rounded-lg',
+            'transition-all duration-200',
+            'focus:outline-none focus:ring-2 focus:ring-primary-500/50',
+            voiceMode === 'vad'
+              ? 'bg-primary-500/90 text-white hover:bg-primary-500'
+              : 'bg-white/5 text-white/70 hover:bg-white/10 hover:text-white',
+            voiceMode !== 'vad' && isDisabled && 'opacity-50 cursor-not-allowed'
+          )}
+          title="自动模式：检测到说话时自动录音，停顿后发送"
+        >
+          <AudioLines size={18} />
+          <span className="text-sm">{voiceMode === 'vad' ? '停止' : '自动'}</span>
+        </button>
+        <button
+          onClick={() => setShowVoiceSettings(!showVoiceSettings)}
+          className={cn(
+            'p-2 rounded-lg transition-colors hover:bg-white/10',
+            showVoiceSettings ? 'text-white' : 'text-white/40'
+          )}
+          title="语音设置"
+        >
+          <Settings2 size={16} />
+        </button>
+
         {/* Voice call: toggle */}
         <button
           onClick={handleVoiceCallToggle}
-          disabled={isDisabled || voiceMode === 'push-to-talk'}
+          disabled={
+            isDisabled || voiceMode === 'push-to-talk' || voiceMode === 'push-to-talk-stream' || voiceMode === 'vad'
+          }
           className={cn(
             'flex items-center gap-2 px-4 py-2 rounded-lg',
             'transition-all duration-200',
@@ -241,6 +409,28 @@ export function VoiceControls() {
           )}
         </button>
 
+        {/* Status: speech / silence in VAD mode */}
+        {voiceMode === 'vad' && !isThinking && (
+          <span className="flex items-center gap-2 text-sm">
+            <span
+              className={cn(
+                'w-2 h-2 rounded-full transition-colors',
+                isSpeechDetected ? 'bg-red-500 animate-pulse' : 'bg-white/30'
+              )}
+            />
+            <span className={isSpeechDetected ? 'text-red-400' : 'text-white/50'}>
+              {isSpeechDetected ? '说话中' : '静音'}
+            </span>
+          </span>
+        )}
+
+        {/* Status: streaming push-to-talk, with the live partial transcription */}
+        {voiceMode === 'push-to-talk-stream' && (
+          <span className="min-w-0 truncate text-sm text-white/70">
+            {audioStreamStatus === 'starting' ? '等待服务器…' : partialTranscription || '识别中…'}
+          </span>
+        )}
+
         {/* Status: 聆听中 / 处理中 */}
         {voiceMode === 'voice_call' && !isThinking && (
           <span className="text-sm text-primary-400">聆听中…</span>
@@ -252,6 +442,25 @@ export function VoiceControls() {
           </div>
         )}
       </div>
+
+      {showVoiceSettings && (
+        <div className="space-y-3">
+          <AudioDeviceSettings />
+          <button
+            onClick={() => setShowMicSetup(true)}
+            disabled={isRecording}
+            className="flex items-center gap-1.5 text-xs text-white/60 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <SlidersHorizontal size={14} />
+            麦克风测试与校准
+          </button>
+          <VadSettings />
+          <AudioUploadSetting />
+          <PlaybackBufferSetting />
+        </div>
+      )}
+
+      {showMicSetup && <MicSetupWizard onClose={() => setShowMicSetup(false)} />}
     </div>
   );
 }
@@ -33,3 +33,10 @@ export function getApiBase(): string {
 export function getWsEndpoint(): string {
   return getWsUrl()
 }
+
+/**
+ * 是否请求二进制音频帧（默认关闭，VITE_BINARY_AUDIO=true 开启）；服务器不支持时自动使用 base64 JSON
+ */
+export function isBinaryAudioEnabled(): boolean {
+  return import.meta.env.VITE_BINARY_AUDIO === 'true'
+}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { act, createElement } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useChatStore } from '@/stores/chatStore';
+import type { ChatClientEvents } from '@/utils/chatClient';
+import { useAudioPlayer } from './useAudioPlayer';
+
+// The hook only listens to the client; a bare emitter stands in for the socket
+vi.mock('@/utils/chatClient', async () => {
+  const { TypedEmitter } = await import('@/utils/emitter');
+  class FakeClient extends TypedEmitter<ChatClientEvents> {
+    fire<K extends keyof ChatClientEvents>(event: K, payload: ChatClientEvents[K]) {
+      this.emit(event, payload);
+    }
+  }
+  return { chatClient: new FakeClient() };
+});
+
+const { chatClient } = (await import('@/utils/chatClient')) as unknown as {
+  chatClient: { fire<K extends keyof ChatClientEvents>(event: K, payload: ChatClientEvents[K]): void };
+};
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+function Player() {
+  useAudioPlayer();
+  return null;
+}
+
+/** Let the decode queue run its steps. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('useAudioPlayer', () => {
+  let root: Root;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    useChatStore.getState().reset();
+    root = createRoot(document.createElement('div'));
+    await act(async () => root.render(createElement(Player)));
+  });
+
+  afterEach(async () => {
+    await act(async () => root.unmount());
+  });
+
+  it('leaves "playing" when a reply ends without playable audio', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // What the controller does when the reply's audio arrives
+    useChatStore.setState({ pipelineStage: 'playing', isPlaying: true });
+
+    await act(async () => {
+      chatClient.fire('llm_start', { type: 'llm_start' });
+      chatClient.fire('audio', { format: 'flac', sampleRate: 24000, data: new Uint8Array(64) });
+      chatClient.fire('audio_end', { type: 'audio_end' });
+      await settle();
+    });
+
+    expect(useChatStore.getState()).toMatchObject({ pipelineStage: 'idle', isPlaying: false });
+  });
+});
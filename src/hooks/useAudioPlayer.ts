@@ -1,7 +1,53 @@
 import { useCallback, useRef, useEffect } from 'react';
-import { base64ToInt16, createAudioBuffer, AUDIO_CONFIG } from '@/utils/audio';
-import { useChatStore } from '@/stores/chatStore';
-import type { ServerMessage } from '@/utils/websocket';
+import {
+  concatInt16,
+  int16ToFloat32,
+  float32ToInt16,
+  resampleAudio,
+  AUDIO_CONFIG,
+} from '@/utils/audio';
+import { useChatStore, type SpeechProgress, type SpokenSentence } from '@/stores/chatStore';
+import { saveTurnAudio } from '@/utils/historyDb';
+import { chatClient } from '@/utils/chatClient';
+import type { AudioPayload } from '@/utils/chatClient';
+import { TtsAudioDecoder, UnsupportedAudioFormatError, type DecodedAudio } from '@/utils/audioDecoder';
+import { GAP_FADE_SECONDS, JitterEstimator } from '@/utils/jitterBuffer';
+import { playbackControl } from '@/utils/playbackControl';
+import { applyOutputDevice } from '@/utils/audioDevices';
+import { timeStretch } from '@/utils/timeStretch';
+
+interface PlaybackChunk {
+  buffer: AudioBuffer;
+  /** Assistant message the chunk belongs to (resolved on arrival, scheduled later). */
+  ownerId: string | null;
+  /** Index of the chunk's sentence (tts_start) within the turn. */
+  sentence: number;
+  /** Set while scheduled: the source, its AudioContext span, buffer offset (s) and rate. */
+  source?: AudioBufferSourceNode;
+  start?: number;
+  end?: number;
+  offset?: number;
+  rate?: number;
+}
+
+/**
+ * Master gain standing in for mute (and volume 0): far below what any output reproduces, yet the
+ * analyser behind it still sees the reply, so lip sync scaled back by the gain keeps moving.
+ */
+const MUTED_GAIN = 1e-8;
+
+function masterGainValue(volume: number, muted: boolean): number {
+  return muted ? MUTED_GAIN : Math.max(volume, MUTED_GAIN);
+}
+
+/** The part of a chunk from `offset` seconds on, played `rate` times as fast at the same pitch. */
+function stretchedBuffer(audioContext: AudioContext, buffer: AudioBuffer, offset: number, rate: number): AudioBuffer {
+  const rest = buffer.getChannelData(0).subarray(Math.round(offset * buffer.sampleRate));
+  const samples = timeStretch(rest, buffer.sampleRate, rate);
+  const stretched = audioContext.createBuffer(1, Math.max(1, samples.length), buffer.sampleRate);
+  stretched.getChannelData(0).set(samples);
+  return stretched;
+}
 
 export interface AudioPlayerOptions {
   onPlaybackStart?: () => void;
@@ -15,21 +61,67 @@ export function useAudioPlayer(
   const { onPlaybackStart, onPlaybackEnd, onVolumeChange } = options;
   
   // Use selectors to avoid subscribing to entire store
-  const ws = useChatStore((state) => state.ws);
   const setIsPlaying = useChatStore((state) => state.setIsPlaying);
   const setPipelineStage = useChatStore((state) => state.setPipelineStage);
   const setVolumeLevel = useChatStore((state) => state.setVolumeLevel);
+  const setErrorMessage = useChatStore((state) => state.setErrorMessage);
+  const setIsPlaybackPaused = useChatStore((state) => state.setIsPlaybackPaused);
+  const setPlaybackRate = useChatStore((state) => state.setPlaybackRate);
+  const setHasReplyAudio = useChatStore((state) => state.setHasReplyAudio);
+  const setSpokenSentence = useChatStore((state) => state.setSpokenSentence);
+  const outputVolume = useChatStore((state) => state.outputVolume);
+  const isOutputMuted = useChatStore((state) => state.isOutputMuted);
+  const audioOutputDeviceId = useChatStore((state) => state.audioOutputDeviceId);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const isPlayingRef = useRef(false);
   const nextStartTimeRef = useRef(0);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  /** Master volume/mute; chunks connect here, ahead of the analyser. */
+  const masterGainRef = useRef<GainNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const scheduledSourcesRef = useRef<AudioBufferSourceNode[]>([]);
   const lastScheduledEndTimeRef = useRef(0);
   const playbackCheckIntervalRef = useRef<number | null>(null);
   /** True after audio_end received; playback is "done" only when stream ended AND queue drained */
   const streamEndedRef = useRef(false);
+  /** Decoded PCM of the current turn, kept so the reply can be replayed/downloaded after playback. */
+  const turnPcmRef = useRef<Int16Array[]>([]);
+  const turnSampleRateRef = useRef<number | null>(null);
+  const turnIdRef = useRef<string | null>(null);
+  /**
+   * AudioContext time span scheduled per assistant message and sentence (segment) of the current
+   * turn, for barge-in trimming and the spoken position.
+   */
+  const segmentsRef = useRef(new Map<string, Map<number, { start: number; end: number }>>());
+  const decoderRef = useRef<TtsAudioDecoder | null>(null);
+  /** Decoding is partly async; chunks are decoded one after another so they play in order. */
+  const decodeQueueRef = useRef<Promise<void>>(Promise.resolve());
+  /** Bumped on a new turn or interrupt; queued decodes of an older generation are dropped. */
+  const decodeGenerationRef = useRef(0);
+  /** Formats already reported as unplayable this turn (one message per format, not per chunk). */
+  const reportedFormatsRef = useRef(new Set<string>());
+  const jitterRef = useRef(new JitterEstimator());
+  /** Chunks held back while the jitter buffer fills (pre-roll, or refill after an underrun). */
+  const heldChunksRef = useRef<PlaybackChunk[]>([]);
+  const isBufferingRef = useRef(true);
+  const holdTimerRef = useRef<number | null>(null);
+  /** Next chunk starts a new sentence; a drained queue before it is not an underrun. */
+  const streamStartRef = useRef(true);
+  /** Gain of the last scheduled chunk and when its tail fade begins (cancelled if audio follows). */
+  const lastFadeRef = useRef<{ gain: GainNode; fadeAt: number } | null>(null);
+  /** Every scheduled chunk of the current (or last) reply, in order; kept for rate changes, skip and replay. */
+  const turnChunksRef = useRef<PlaybackChunk[]>([]);
+  /** Index of the sentence being received (-1 before the turn's first tts_start). */
+  const sentenceRef = useRef(-1);
+  /** Text and emotion of each sentence of the turn, from its tts_start. */
+  const sentenceInfoRef = useRef<{ text: string; emotion: string }[]>([]);
+  /** Sentence last published as spokenSentence, so the store only changes when it does. */
+  const spokenSentenceRef = useRef<SpokenSentence | null>(null);
+  /** Sentence the user skipped; its late chunks are dropped. */
+  const skippedSentenceRef = useRef<number | null>(null);
+  const isPausedRef = useRef(false);
+  const playbackRateRef = useRef(useChatStore.getState().playbackRate);
 
   // Initialize audio context
   const getAudioContext = useCallback(() => {
@@ -43,27 +135,74 @@ export function useAudioPlayer(
       analyser.fftSize = 256;
       analyser.connect(audioContextRef.current.destination);
       analyserRef.current = analyser;
+
+      // Master gain in front of the analyser; lip sync divides the gain back out (see MUTED_GAIN)
+      const { outputVolume, isOutputMuted, audioOutputDeviceId } = useChatStore.getState();
+      const masterGain = audioContextRef.current.createGain();
+      masterGain.gain.value = masterGainValue(outputVolume, isOutputMuted);
+      masterGain.connect(analyser);
+      masterGainRef.current = masterGain;
+      if (audioOutputDeviceId) applyOutputDevice(audioContextRef.current, audioOutputDeviceId);
       
       // Reset scheduling state
       nextStartTimeRef.current = 0;
       lastScheduledEndTimeRef.current = 0;
+      lastFadeRef.current = null;
       scheduledSourcesRef.current = [];
     }
     
-    // Resume if suspended
-    if (audioContextRef.current.state === 'suspended') {
+    // Resume if suspended (unless the user paused the reply)
+    if (audioContextRef.current.state === 'suspended' && !isPausedRef.current) {
       audioContextRef.current.resume();
     }
     
     return audioContextRef.current;
   }, []);
 
+  // Sentence being heard: the latest one that has started (held at its end during gaps)
+  const spokenProgress = useCallback((): SpeechProgress | null => {
+    const now = audioContextRef.current?.currentTime ?? 0;
+    let progress: SpeechProgress | null = null;
+    let latestStart = -Infinity;
+    for (const [messageId, spans] of segmentsRef.current) {
+      for (const [segment, { start, end }] of spans) {
+        if (start > now || start < latestStart) continue;
+        latestStart = start;
+        const fraction = end > start ? Math.min(1, (now - start) / (end - start)) : 1;
+        progress = { messageId, segment, fraction };
+      }
+    }
+    return progress;
+  }, []);
+
+  // Publish the audible sentence (the chat bubble highlights it, subtitles show it)
+  const publishSpokenSentence = useCallback((progress: SpeechProgress | null) => {
+    const previous = spokenSentenceRef.current;
+    if (previous?.messageId === progress?.messageId && previous?.segment === progress?.segment) return;
+    let sentence: SpokenSentence | null = null;
+    if (progress) {
+      const info = sentenceInfoRef.current[progress.segment];
+      const message = useChatStore.getState().messages.find((m) => m.id === progress.messageId);
+      const segment = message?.segments?.[progress.segment];
+      sentence = {
+        messageId: progress.messageId,
+        segment: progress.segment,
+        text: info?.text || segment?.content || '',
+        emotion: info?.emotion ?? segment?.emotion,
+      };
+    }
+    spokenSentenceRef.current = sentence;
+    setSpokenSentence(sentence);
+  }, [setSpokenSentence]);
+
   // Volume monitoring: RMS from time domain (matches Python WavHandler.GetRms() for lip sync)
   const startVolumeMonitoring = useCallback(() => {
     const analyser = analyserRef.current;
-    if (!analyser) return;
+    const masterGain = masterGainRef.current;
+    if (!analyser || !masterGain) return;
 
-    const timeData = new Uint8Array(analyser.fftSize);
+    // Float data: at a low volume (or muted) the byte data would round the reply to silence
+    const timeData = new Float32Array(analyser.fftSize);
 
     const updateVolume = () => {
       if (!isPlayingRef.current) {
@@ -71,19 +210,26 @@ export function useAudioPlayer(
         return;
       }
 
-      analyser.getByteTimeDomainData(timeData);
+      // A suspended context leaves stale data in the analyser; keep the mouth closed while paused
+      let volume = 0;
+      if (!isPausedRef.current) {
+        analyser.getFloatTimeDomainData(timeData);
 
-      // RMS: sample_i = (v - 128) / 128, rms = sqrt(mean(sample_i^2))
-      let sumSq = 0;
-      for (let i = 0; i < timeData.length; i++) {
-        const sample = (timeData[i] - 128) / 128;
-        sumSq += sample * sample;
+        // RMS: rms = sqrt(mean(sample_i^2)), at the reply's own level whatever the volume
+        let sumSq = 0;
+        for (let i = 0; i < timeData.length; i++) {
+          sumSq += timeData[i] * timeData[i];
+        }
+        const rms = Math.sqrt(sumSq / timeData.length) / masterGain.gain.value;
+        volume = Math.min(1, rms * 2);
       }
-      const rms = Math.sqrt(sumSq / timeData.length);
-      const volume = Math.min(1, rms * 2);
 
       // Write to shared ref every frame so lip sync reads latest without depending on React re-renders
-      useChatStore.getState().volumeLevelRef.current = volume;
+      const store = useChatStore.getState();
+      store.volumeLevelRef.current = volume;
+      const progress = spokenProgress();
+      store.speechProgressRef.current = progress;
+      publishSpokenSentence(progress);
 
       setVolumeLevel(volume);
       onVolumeChange?.(volume);
@@ -92,7 +238,7 @@ export function useAudioPlayer(
     };
 
     updateVolume();
-  }, [setVolumeLevel, onVolumeChange]);
+  }, [setVolumeLevel, onVolumeChange, spokenProgress, publishSpokenSentence]);
 
   // Stop volume monitoring
   const stopVolumeMonitoring = useCallback(() => {
@@ -101,8 +247,10 @@ export function useAudioPlayer(
       animationFrameRef.current = null;
     }
     useChatStore.getState().volumeLevelRef.current = 0;
+    useChatStore.getState().speechProgressRef.current = null;
+    publishSpokenSentence(null);
     setVolumeLevel(0);
-  }, [setVolumeLevel]);
+  }, [setVolumeLevel, publishSpokenSentence]);
 
   // Check if playback has ended (only after stream ended AND queue drained)
   const checkPlaybackEnded = useCallback(() => {
@@ -110,7 +258,7 @@ export function useAudioPlayer(
     if (!audioContext) return;
     
     // Require streamEnded (audio_end received) so we don't flicker off during chunk gaps
-    if (!streamEndedRef.current) return;
+    if (!streamEndedRef.current || heldChunksRef.current.length > 0) return;
     // If current time has passed the last scheduled end time, playback is done
     if (isPlayingRef.current && audioContext.currentTime >= lastScheduledEndTimeRef.current) {
       // Clean up finished sources
@@ -129,26 +277,57 @@ export function useAudioPlayer(
     }
   }, [setIsPlaying, setPipelineStage, stopVolumeMonitoring, onPlaybackEnd]);
 
-  // Schedule audio buffer for playback (pre-scheduling approach)
-  const scheduleBuffer = useCallback((buffer: AudioBuffer) => {
+  // Schedule a chunk (from `offset` seconds into its buffer) after what is queued (pre-scheduling approach)
+  const scheduleBuffer = useCallback((chunk: PlaybackChunk, offset = 0): boolean => {
     const audioContext = audioContextRef.current;
-    const analyser = analyserRef.current;
+    const masterGain = masterGainRef.current;
     
-    if (!audioContext || !analyser) return;
+    if (!audioContext || !masterGain) return false;
 
+    const { buffer } = chunk;
+    const rate = playbackRateRef.current;
     const source = audioContext.createBufferSource();
-    source.buffer = buffer;
-    source.connect(analyser);
+    // Other speeds play a time-stretched copy of the rest of the chunk (playbackRate would shift the pitch)
+    const played = rate === 1 ? buffer : stretchedBuffer(audioContext, buffer, offset, rate);
+    const playedOffset = rate === 1 ? offset : 0;
+    source.buffer = played;
+    const gain = audioContext.createGain();
+    source.connect(gain);
+    gain.connect(masterGain);
     
     // Calculate start time - use last scheduled end time or current time
     const now = audioContext.currentTime;
     const startTime = Math.max(lastScheduledEndTimeRef.current, now);
+    const duration = played.duration - playedOffset;
+    const endTime = startTime + duration;
+
+    // Fade across gaps: if this chunk continues the previous one before its tail fade started,
+    // cancel that fade; otherwise there is silence before this chunk, so fade it in
+    const previous = lastFadeRef.current;
+    const continues = previous !== null && startTime === lastScheduledEndTimeRef.current && now < previous.fadeAt;
+    if (continues) {
+      previous.gain.gain.cancelScheduledValues(previous.fadeAt);
+      previous.gain.gain.setValueAtTime(1, previous.fadeAt);
+    }
+    const fades = duration > GAP_FADE_SECONDS * 2;
+    if (fades && !continues) {
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(1, startTime + GAP_FADE_SECONDS);
+    }
+    // Fade the tail out in case nothing follows in time
+    const fadeAt = endTime - GAP_FADE_SECONDS;
+    if (fades) {
+      gain.gain.setValueAtTime(1, fadeAt);
+      gain.gain.linearRampToValueAtTime(0, endTime);
+    }
+    lastFadeRef.current = fades ? { gain, fadeAt } : null;
     
     // Update the last scheduled end time
-    lastScheduledEndTimeRef.current = startTime + buffer.duration;
+    lastScheduledEndTimeRef.current = endTime;
 
     // Schedule the buffer to start at the calculated time
-    source.start(startTime);
+    source.start(startTime, playedOffset);
+    Object.assign(chunk, { source, start: startTime, end: endTime, offset, rate });
     
     // Keep track of scheduled sources for cleanup
     scheduledSourcesRef.current.push(source);
@@ -160,35 +339,249 @@ export function useAudioPlayer(
         scheduledSourcesRef.current.splice(index, 1);
       }
     };
+
+    return true;
   }, []);
 
-  // Add audio chunk - immediately schedule for playback
-  const addAudioChunk = useCallback((base64Data: string, sampleRate: number = AUDIO_CONFIG.sampleRate) => {
-    const audioContext = getAudioContext();
-    
-    try {
-      const int16Data = base64ToInt16(base64Data);
-      const audioBuffer = createAudioBuffer(audioContext, int16Data, sampleRate);
-      
-      // Immediately schedule this buffer for playback
-      scheduleBuffer(audioBuffer);
+  // Chunks follow their sentence's `response`, so they belong to the turn's latest assistant message
+  const segmentOwner = useCallback((): string | null => {
+    const { messages, currentTurnId } = useChatStore.getState();
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== 'assistant' || !currentTurnId || last.turnId !== currentTurnId) return null;
+    return last.id;
+  }, []);
 
-      // Start playback state tracking if not already
-      if (!isPlayingRef.current) {
-        isPlayingRef.current = true;
-        setIsPlaying(true);
-        startVolumeMonitoring();
-        onPlaybackStart?.();
-        
-        // Start periodic check for playback completion
-        if (!playbackCheckIntervalRef.current) {
-          playbackCheckIntervalRef.current = window.setInterval(checkPlaybackEnded, 100);
-        }
+  const trackSegment = useCallback((chunk: PlaybackChunk) => {
+    if (!chunk.ownerId || chunk.start === undefined) return;
+    let spans = segmentsRef.current.get(chunk.ownerId);
+    if (!spans) {
+      spans = new Map();
+      segmentsRef.current.set(chunk.ownerId, spans);
+    }
+    // Audio before the turn's first tts_start belongs to its first sentence
+    const sentence = Math.max(0, chunk.sentence);
+    const span = spans.get(sentence);
+    if (span) {
+      span.end = chunk.end!;
+    } else {
+      spans.set(sentence, { start: chunk.start, end: chunk.end! });
+    }
+  }, []);
+
+  // Retain decoded samples for the turn; all chunks are stored at the first chunk's rate
+  const retainTurnAudio = useCallback((int16Data: Int16Array, sampleRate: number) => {
+    if (!turnIdRef.current) {
+      turnIdRef.current = useChatStore.getState().currentTurnId;
+      turnSampleRateRef.current = sampleRate;
+    }
+    const targetRate = turnSampleRateRef.current ?? sampleRate;
+    turnPcmRef.current.push(
+      targetRate === sampleRate
+        ? int16Data
+        : float32ToInt16(resampleAudio(int16ToFloat32(int16Data), sampleRate, targetRate))
+    );
+  }, []);
+
+  // Turn finished: persist its audio and link it to the turn's messages
+  const flushTurnAudio = useCallback(() => {
+    const turnId = turnIdRef.current;
+    const sampleRate = turnSampleRateRef.current;
+    const chunks = turnPcmRef.current;
+    turnIdRef.current = null;
+    turnSampleRateRef.current = null;
+    turnPcmRef.current = [];
+    if (!turnId || !sampleRate || chunks.length === 0) return;
+
+    saveTurnAudio({ turnId, sampleRate, pcm: concatInt16(chunks) })
+      .then(() => useChatStore.getState().markTurnAudio(turnId))
+      .catch((error) => console.error('Failed to store turn audio:', error));
+  }, []);
+
+  // Start playback state tracking if not already
+  const startPlaybackTracking = useCallback(() => {
+    if (!isPlayingRef.current) {
+      isPlayingRef.current = true;
+      setIsPlaying(true);
+      startVolumeMonitoring();
+      onPlaybackStart?.();
+
+      // Start periodic check for playback completion
+      if (!playbackCheckIntervalRef.current) {
+        playbackCheckIntervalRef.current = window.setInterval(checkPlaybackEnded, 100);
       }
-    } catch (error) {
-      console.error('Failed to decode audio chunk:', error);
     }
-  }, [getAudioContext, scheduleBuffer, setIsPlaying, startVolumeMonitoring, onPlaybackStart, checkPlaybackEnded]);
+  }, [setIsPlaying, startVolumeMonitoring, onPlaybackStart, checkPlaybackEnded]);
+
+  // Schedule a newly arrived chunk right after what is already queued
+  const scheduleChunk = useCallback((chunk: PlaybackChunk) => {
+    if (!scheduleBuffer(chunk)) return;
+    trackSegment(chunk);
+    if (turnChunksRef.current.length === 0) setHasReplyAudio(true);
+    turnChunksRef.current.push(chunk);
+    startPlaybackTracking();
+  }, [scheduleBuffer, trackSegment, startPlaybackTracking, setHasReplyAudio]);
+
+  const stopChunk = useCallback((chunk: PlaybackChunk) => {
+    try {
+      chunk.source?.stop();
+    } catch {
+      // Ignore errors if already stopped
+    }
+    chunk.source = undefined;
+  }, []);
+
+  // Where playback is now: the chunk being heard and the buffer offset within it
+  const currentPosition = useCallback((): { index: number; offset: number } | null => {
+    const now = audioContextRef.current?.currentTime ?? 0;
+    const index = turnChunksRef.current.findIndex((chunk) => chunk.source && chunk.end! > now);
+    if (index < 0) return null;
+    const chunk = turnChunksRef.current[index];
+    return { index, offset: chunk.offset! + Math.max(0, now - chunk.start!) * chunk.rate! };
+  }, []);
+
+  // Stop `chunks` and schedule them again back to back from now (rate change, skip, replay)
+  const rescheduleChunks = useCallback((chunks: PlaybackChunk[], firstOffset: number) => {
+    chunks.forEach(stopChunk);
+    lastScheduledEndTimeRef.current = 0;
+    lastFadeRef.current = null;
+    chunks.forEach((chunk, index) => scheduleBuffer(chunk, index === 0 ? firstOffset : 0));
+
+    // Barge-in trimming works on the new timeline
+    segmentsRef.current.clear();
+    turnChunksRef.current.forEach(trackSegment);
+  }, [stopChunk, scheduleBuffer, trackSegment]);
+
+  // Jitter buffer filled (or waited long enough, or the stream ended): play what is held
+  const releaseHeldChunks = useCallback(() => {
+    if (holdTimerRef.current) {
+      clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+    isBufferingRef.current = false;
+    const held = heldChunksRef.current;
+    heldChunksRef.current = [];
+    held.forEach(scheduleChunk);
+  }, [scheduleChunk]);
+
+  // Drop held audio and start the next stream with a pre-roll
+  const resetJitterBuffer = useCallback(() => {
+    if (holdTimerRef.current) {
+      clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+    heldChunksRef.current = [];
+    isBufferingRef.current = true;
+    streamStartRef.current = true;
+    lastFadeRef.current = null;
+    jitterRef.current.startStream();
+  }, []);
+
+  // Forget the reply's chunks (new turn, interrupt)
+  const resetReply = useCallback(() => {
+    turnChunksRef.current = [];
+    sentenceRef.current = -1;
+    sentenceInfoRef.current = [];
+    skippedSentenceRef.current = null;
+    setHasReplyAudio(false);
+  }, [setHasReplyAudio]);
+
+  const setPaused = useCallback((paused: boolean) => {
+    const audioContext = audioContextRef.current;
+    if (isPausedRef.current === paused) return;
+    isPausedRef.current = paused;
+    setIsPlaybackPaused(paused);
+    if (!audioContext) return;
+    // Suspending freezes currentTime, so everything scheduled simply continues on resume
+    if (paused) {
+      audioContext.suspend();
+    } else {
+      audioContext.resume();
+    }
+  }, [setIsPlaybackPaused]);
+
+  // Decoded samples arrived: play at once, or hold while the jitter buffer fills
+  const playDecoded = useCallback((decoded: DecodedAudio) => {
+    if (decoded.samples.length === 0) return;
+    const audioContext = getAudioContext();
+    const audioBuffer = audioContext.createBuffer(1, decoded.samples.length, decoded.sampleRate);
+    audioBuffer.getChannelData(0).set(decoded.samples);
+    retainTurnAudio(float32ToInt16(decoded.samples), decoded.sampleRate);
+    if (sentenceRef.current === skippedSentenceRef.current) return;
+
+    const jitter = jitterRef.current;
+    jitter.addArrival(performance.now(), audioBuffer.duration * 1000);
+    const store = useChatStore.getState();
+    const targetMs = Math.round(jitter.targetMs / 10) * 10;
+    if (targetMs !== store.jitterTargetMs) store.setJitterTargetMs(targetMs);
+
+    // Queue ran dry before this chunk: refill before resuming. Mid-sentence that is an
+    // underrun; before a new sentence it is just the synthesis pause.
+    if (!isBufferingRef.current && audioContext.currentTime >= lastScheduledEndTimeRef.current) {
+      isBufferingRef.current = true;
+      if (!streamStartRef.current) store.recordUnderrun();
+    }
+    streamStartRef.current = false;
+
+    const chunk: PlaybackChunk = { buffer: audioBuffer, ownerId: segmentOwner(), sentence: sentenceRef.current };
+    if (!isBufferingRef.current) {
+      scheduleChunk(chunk);
+      return;
+    }
+    heldChunksRef.current.push(chunk);
+    const heldMs = heldChunksRef.current.reduce((sum, held) => sum + held.buffer.duration * 1000, 0);
+    if (heldMs >= jitter.targetMs) {
+      releaseHeldChunks();
+    } else if (!holdTimerRef.current) {
+      // Waiting longer than the target means the buffer is not filling; play what there is
+      holdTimerRef.current = window.setTimeout(releaseHeldChunks, jitter.targetMs);
+    }
+  }, [getAudioContext, retainTurnAudio, segmentOwner, scheduleChunk, releaseHeldChunks]);
+
+  // Run a decoder step after the ones already queued and play its output
+  const enqueueDecode = useCallback(
+    (step: (decoder: TtsAudioDecoder) => Promise<DecodedAudio[]>, after?: () => void) => {
+      const generation = decodeGenerationRef.current;
+      decodeQueueRef.current = decodeQueueRef.current.then(async () => {
+        if (generation !== decodeGenerationRef.current) return;
+        // Nothing may throw out of here: a rejected link would stop every later step
+        try {
+          decoderRef.current ??= new TtsAudioDecoder(getAudioContext);
+          const decoded = await step(decoderRef.current);
+          if (generation !== decodeGenerationRef.current) return;
+          decoded.forEach(playDecoded);
+        } catch (error) {
+          if (error instanceof UnsupportedAudioFormatError) {
+            console.error(error.message);
+            if (!reportedFormatsRef.current.has(error.format)) {
+              reportedFormatsRef.current.add(error.format);
+              setErrorMessage(`无法播放 ${error.format} 格式的语音`);
+            }
+          } else {
+            console.error('Failed to decode audio chunk:', error);
+          }
+        }
+        try {
+          if (generation === decodeGenerationRef.current) after?.();
+        } catch (error) {
+          console.error('Failed to finish audio step:', error);
+        }
+      });
+    },
+    [getAudioContext, playDecoded, setErrorMessage]
+  );
+
+  // Drop queued and in-progress decodes (new turn, interrupt)
+  const resetDecoding = useCallback(() => {
+    decodeGenerationRef.current++;
+    decoderRef.current?.reset();
+  }, []);
+
+  // Add audio chunk - decode and schedule for playback as soon as possible
+  const addAudioChunk = useCallback((audio: AudioPayload) => {
+    enqueueDecode((decoder) =>
+      decoder.decode({ ...audio, sampleRate: audio.sampleRate || AUDIO_CONFIG.sampleRate })
+    );
+  }, [enqueueDecode]);
 
   // Stop playback
   const stopPlayback = useCallback(() => {
@@ -201,6 +594,8 @@ export function useAudioPlayer(
       }
     }
     scheduledSourcesRef.current = [];
+    resetJitterBuffer();
+    setPaused(false);
     
     // Clear playback check interval
     if (playbackCheckIntervalRef.current) {
@@ -216,54 +611,184 @@ export function useAudioPlayer(
     setIsPlaying(false);
     stopVolumeMonitoring();
     onPlaybackEnd?.();
-  }, [setIsPlaying, stopVolumeMonitoring, onPlaybackEnd]);
-
-  // Handle WebSocket messages for audio
-  useEffect(() => {
-    if (!ws) return;
+  }, [resetJitterBuffer, setPaused, setIsPlaying, stopVolumeMonitoring, onPlaybackEnd]);
 
-    const handleMessage = (event: MessageEvent) => {
-      try {
-        const message: ServerMessage = JSON.parse(event.data);
-
-        switch (message.type) {
-          case 'llm_start':
-            // New turn: reset scheduling so first sentence's chunks start from current time.
-            // Do NOT reset on tts_start — multi-sentence sends one tts_start per sentence;
-            // resetting there would make sentence 2+ start at "now" and overlap with previous.
-            lastScheduledEndTimeRef.current = 0;
-            streamEndedRef.current = false;
-            break;
-
-          case 'tts_start':
-            // Pre-initialize AudioContext when TTS starts to reduce latency on first chunk
-            getAudioContext();
-            break;
-
-          case 'audio_chunk':
-            addAudioChunk(message.audio_base64, message.audio_sample_rate);
-            break;
-
-          case 'audio_end':
-            // Stream finished sending; playback ends only when queue drains (checkPlaybackEnded)
-            streamEndedRef.current = true;
-            break;
-        }
-      } catch {
-        // Ignore non-JSON messages
+  // Barge-in: stop at once and cut the turn's bubbles to what was actually heard
+  const handleInterrupt = useCallback(() => {
+    const turnId = useChatStore.getState().currentTurnId;
+    const now = audioContextRef.current?.currentTime ?? 0;
+    const heard: Record<string, number[]> = {};
+    for (const [messageId, spans] of segmentsRef.current) {
+      heard[messageId] = [];
+      for (const [segment, { start, end }] of spans) {
+        heard[messageId][segment] = end > start ? Math.min(1, Math.max(0, (now - start) / (end - start))) : 1;
       }
-    };
+    }
+    segmentsRef.current.clear();
+
+    resetDecoding();
+    stopPlayback();
+    resetReply();
+    setPipelineStage('idle');
+    // A cut reply is not worth keeping as replayable audio
+    turnIdRef.current = null;
+    turnSampleRateRef.current = null;
+    turnPcmRef.current = [];
+
+    if (turnId) {
+      useChatStore.getState().truncateTurn(turnId, heard);
+    }
+  }, [resetDecoding, stopPlayback, resetReply, setPipelineStage]);
 
-    ws.addEventListener('message', handleMessage);
+  // Skip: drop the rest of the sentence being heard and continue with the next one
+  const skipSentence = useCallback(() => {
+    const position = currentPosition();
+    if (!position) return;
+    const chunks = turnChunksRef.current;
+    const sentence = chunks[position.index].sentence;
+    const now = audioContextRef.current?.currentTime ?? 0;
+    const rest = chunks.slice(position.index).filter((chunk) => {
+      if (chunk.sentence !== sentence) return true;
+      stopChunk(chunk);
+      // Counts as heard up to now for barge-in trimming
+      chunk.start = Math.min(chunk.start!, now);
+      chunk.end = now;
+      return false;
+    });
+    skippedSentenceRef.current = sentence;
+    heldChunksRef.current = heldChunksRef.current.filter((chunk) => chunk.sentence !== sentence);
+    rescheduleChunks(rest, 0);
+  }, [currentPosition, stopChunk, rescheduleChunks]);
+
+  // Replay the whole reply (including what is still buffered) from its beginning
+  const replayReply = useCallback(() => {
+    if (!audioContextRef.current) return;
+    releaseHeldChunks();
+    if (turnChunksRef.current.length === 0) return;
+    skippedSentenceRef.current = null;
+    setPaused(false);
+    rescheduleChunks(turnChunksRef.current, 0);
+    startPlaybackTracking();
+  }, [releaseHeldChunks, setPaused, rescheduleChunks, startPlaybackTracking]);
+
+  // Rate change: re-lay the remaining audio from the current position at the new rate
+  const changeRate = useCallback((rate: number) => {
+    if (rate === playbackRateRef.current) return;
+    const position = currentPosition();
+    playbackRateRef.current = rate;
+    setPlaybackRate(rate);
+    if (position) {
+      rescheduleChunks(turnChunksRef.current.slice(position.index), position.offset);
+    }
+  }, [currentPosition, setPlaybackRate, rescheduleChunks]);
+
+  // Subscribe to audio-related server events (the client parses each frame once)
+  useEffect(() => {
+    const unsubscribers = [
+      chatClient.on('llm_start', () => {
+        // New turn: reset scheduling so first sentence's chunks start from current time.
+        // Do NOT reset on tts_start — multi-sentence sends one tts_start per sentence;
+        // resetting there would make sentence 2+ start at "now" and overlap with previous.
+        lastScheduledEndTimeRef.current = 0;
+        streamEndedRef.current = false;
+        // A turn without turn_end (e.g. interrupted by error) must not leak into this one
+        turnIdRef.current = null;
+        turnSampleRateRef.current = null;
+        turnPcmRef.current = [];
+        segmentsRef.current.clear();
+        resetDecoding();
+        reportedFormatsRef.current.clear();
+        resetJitterBuffer();
+        resetReply();
+        setPaused(false);
+        jitterRef.current.configure({ preRollMs: useChatStore.getState().playbackPreRollMs });
+      }),
+      chatClient.on('tts_start', ({ text, emotion }) => {
+        // Pre-initialize AudioContext when TTS starts to reduce latency on first chunk
+        getAudioContext();
+        // A new sentence is a new stream: finish the previous one (buffered containers)
+        enqueueDecode(
+          (decoder) => decoder.end(),
+          () => {
+            streamStartRef.current = true;
+            jitterRef.current.startStream();
+            sentenceRef.current++;
+            sentenceInfoRef.current[sentenceRef.current] = { text, emotion };
+          }
+        );
+      }),
+      chatClient.on('audio', (audio) => {
+        // Audio the server had already sent for an interrupted turn
+        const { currentTurnId, interruptedTurnId } = useChatStore.getState();
+        if (currentTurnId && currentTurnId === interruptedTurnId) return;
+        addAudioChunk(audio);
+      }),
+      chatClient.on('audio_end', () => {
+        // Stream finished sending once everything queued is decoded; playback ends only when
+        // the queue drains (checkPlaybackEnded)
+        enqueueDecode(
+          (decoder) => decoder.end(),
+          () => {
+            releaseHeldChunks();
+            streamEndedRef.current = true;
+            // Nothing was playable (e.g. unsupported format): do not stay in "playing" (the
+            // controller marks the reply as playing when its audio arrives)
+            if (!isPlayingRef.current && useChatStore.getState().pipelineStage === 'playing') {
+              setIsPlaying(false);
+              setPipelineStage('idle');
+            }
+          }
+        );
+      }),
+      chatClient.on('turn_end', flushTurnAudio),
+      chatClient.on('interrupt', handleInterrupt),
+      playbackControl.on('pause', () => {
+        if (isPlayingRef.current) setPaused(true);
+      }),
+      playbackControl.on('resume', () => setPaused(false)),
+      playbackControl.on('skip', skipSentence),
+      playbackControl.on('replay', replayReply),
+      playbackControl.on('rate', changeRate),
+    ];
 
     return () => {
-      ws.removeEventListener('message', handleMessage);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
-  }, [ws, addAudioChunk, getAudioContext]);
+  }, [
+    addAudioChunk,
+    enqueueDecode,
+    resetDecoding,
+    resetJitterBuffer,
+    resetReply,
+    releaseHeldChunks,
+    getAudioContext,
+    flushTurnAudio,
+    handleInterrupt,
+    setPaused,
+    skipSentence,
+    replayReply,
+    changeRate,
+    setIsPlaying,
+    setPipelineStage,
+  ]);
+
+  // Volume and mute apply to the running context immediately (short ramp, no click)
+  useEffect(() => {
+    const audioContext = audioContextRef.current;
+    const masterGain = masterGainRef.current;
+    if (!audioContext || !masterGain) return;
+    masterGain.gain.setTargetAtTime(masterGainValue(outputVolume, isOutputMuted), audioContext.currentTime, 0.015);
+  }, [outputVolume, isOutputMuted]);
+
+  // Output device: route the running context; new contexts pick it up in getAudioContext
+  useEffect(() => {
+    if (audioContextRef.current) applyOutputDevice(audioContextRef.current, audioOutputDeviceId);
+  }, [audioOutputDeviceId]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      resetDecoding();
       stopPlayback();
       if (playbackCheckIntervalRef.current) {
         clearInterval(playbackCheckIntervalRef.current);
@@ -274,7 +799,7 @@ export function useAudioPlayer(
         audioContextRef.current = null;
       }
     };
-  }, [stopPlayback]);
+  }, [resetDecoding, stopPlayback]);
 
   return {
     addAudioChunk,
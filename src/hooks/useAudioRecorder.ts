@@ -1,25 +1,45 @@
 import { useCallback, useRef, useState } from 'react';
 import {
   AUDIO_CONFIG,
-  float32ToInt16,
-  int16ToBase64,
-  resampleAudio,
   calculateRMS,
   normalizeVolume,
+  concatInt16,
 } from '@/utils/audio';
+import { createCaptureNode, type CaptureFrame, type CaptureNode } from '@/utils/captureNode';
+import { getMicrophoneStream } from '@/utils/audioDevices';
 import { useChatStore } from '@/stores/chatStore';
+import {
+  VoiceActivityDetector,
+  DEFAULT_VAD_CONFIG,
+  type VadConfig,
+  type VadEvent,
+} from '@/utils/vad';
 
 export interface AudioRecorderOptions {
-  onChunk?: (base64Data: string) => void;
+  /** Streaming modes: one frame of 16-bit PCM at AUDIO_CONFIG.sampleRate every chunkIntervalMs. */
+  onChunk?: (pcm: Int16Array) => void;
   onVolumeChange?: (volume: number) => void;
   chunkIntervalMs?: number;
 }
 
 /** Optional overrides when starting recording (e.g. pass onChunk at call time to avoid React state timing). */
 export interface StartRecordingOverrides {
-  onChunk?: (base64Data: string) => void;
+  onChunk?: (pcm: Int16Array) => void;
+  /** Run voice activity detection on the captured frames and report speech start/end. */
+  onVoiceActivity?: (event: VadEvent) => void;
+  vad?: Partial<VadConfig>;
+  /**
+   * Utterance mode (requires onVoiceActivity): keep only detected speech, plus a little audio
+   * before the onset, and hand each utterance over when the VAD reports speech end.
+   */
+  onUtterance?: (pcm: Int16Array) => void;
 }
 
+/** Audio kept before speech_start so the first syllable is not clipped by the VAD onset delay. */
+const PRE_ROLL_MARGIN_MS = 300;
+/** Utterances shorter than this are treated as noise and dropped. */
+const MIN_UTTERANCE_MS = 400;
+
 export function useAudioRecorder(options: AudioRecorderOptions = {}) {
   const { onChunk, onVolumeChange, chunkIntervalMs = 100 } = options;
   
@@ -32,16 +52,29 @@ export function useAudioRecorder(options: AudioRecorderOptions = {}) {
   
   const streamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureRef = useRef<CaptureNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const chunksRef = useRef<Int16Array[]>([]);
   const isRecordingRef = useRef(false);
-  const chunkIntervalRef = useRef<number | null>(null);
-  const accumulatedSamplesRef = useRef<Float32Array[]>([]);
 
   // Start recording. Pass overrides.onChunk at call time for voice call so the callback is used immediately (avoids React state timing).
   const startRecording = useCallback(async (overrides?: StartRecordingOverrides) => {
     const chunkCallback = overrides?.onChunk ?? onChunk;
+    const vadCallback = overrides?.onVoiceActivity;
+    const calibration = useChatStore.getState().micCalibration;
+    const detector = vadCallback
+      ? new VoiceActivityDetector({
+          // The calibrated threshold matches the gained signal; explicit settings still win
+          ...(calibration ? { energyThreshold: calibration.energyThreshold } : {}),
+          ...overrides?.vad,
+        })
+      : null;
+    const utteranceCallback = detector ? overrides?.onUtterance : undefined;
+    const preRollSamples =
+      (((overrides?.vad?.minSpeechMs ?? DEFAULT_VAD_CONFIG.minSpeechMs) + PRE_ROLL_MARGIN_MS) / 1000) *
+      AUDIO_CONFIG.sampleRate;
+    let preRoll: Int16Array[] = [];
+    let utterance: Int16Array[] | null = null;
     try {
       // Check browser support
       if (!navigator.mediaDevices?.getUserMedia) {
@@ -49,15 +82,13 @@ export function useAudioRecorder(options: AudioRecorderOptions = {}) {
         throw new Error('Browser does not support audio recording');
       }
 
-      // Request microphone permission
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: AUDIO_CONFIG.sampleRate,
-          channelCount: AUDIO_CONFIG.channelCount,
-        },
+      // Request microphone permission (selected device, or the default)
+      const stream = await getMicrophoneStream(useChatStore.getState().audioInputDeviceId, {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        sampleRate: AUDIO_CONFIG.sampleRate,
+        channelCount: AUDIO_CONFIG.channelCount,
       });
 
       streamRef.current = stream;
@@ -73,74 +104,70 @@ export function useAudioRecorder(options: AudioRecorderOptions = {}) {
       const source = audioContext.createMediaStreamSource(stream);
       sourceRef.current = source;
 
-      // Create processor for raw PCM data
-      // Note: ScriptProcessorNode is deprecated but works reliably
-      // AudioWorklet is the modern alternative but requires more setup
-      const processor = audioContext.createScriptProcessor(4096, 1, 1);
-      processorRef.current = processor;
+      // Calibrated input gain (setup wizard) ahead of capture, so volume, VAD and sent audio all see it
+      const inputGain = audioContext.createGain();
+      inputGain.gain.value = calibration?.inputGain ?? 1;
+      source.connect(inputGain);
 
       // Clear previous data
       chunksRef.current = [];
-      accumulatedSamplesRef.current = [];
       isRecordingRef.current = true;
 
-      processor.onaudioprocess = (event) => {
+      // Frames arrive resampled to AUDIO_CONFIG.sampleRate and already converted to Int16
+      const handleFrame = ({ samples, pcm }: CaptureFrame) => {
         if (!isRecordingRef.current) return;
 
-        const inputData = event.inputBuffer.getChannelData(0);
-        const float32Data = new Float32Array(inputData);
-
         // Calculate volume for visualization
-        const rms = calculateRMS(float32Data);
+        const rms = calculateRMS(samples);
         const volume = normalizeVolume(rms);
         setVolumeLevel(volume);
         onVolumeChange?.(volume);
 
-        // Resample if needed
-        const resampled = resampleAudio(
-          float32Data,
-          audioContext.sampleRate,
-          AUDIO_CONFIG.sampleRate
-        );
-
-        // Accumulate samples for chunks
-        accumulatedSamplesRef.current.push(resampled);
-
-        // Convert to Int16 and store
-        const int16Data = float32ToInt16(resampled);
-        chunksRef.current.push(int16Data);
-      };
+        const vadEvent = detector?.process(samples, AUDIO_CONFIG.sampleRate);
 
-      // Connect nodes
-      source.connect(processor);
-      processor.connect(audioContext.destination);
-
-      // Start chunk sending interval (for streaming modes); use callback from overrides or options
-      if (chunkCallback) {
-        chunkIntervalRef.current = window.setInterval(() => {
-          if (accumulatedSamplesRef.current.length > 0) {
-            // Merge accumulated samples
-            const totalLength = accumulatedSamplesRef.current.reduce(
-              (sum, arr) => sum + arr.length,
-              0
-            );
-            const merged = new Float32Array(totalLength);
-            let offset = 0;
-            for (const arr of accumulatedSamplesRef.current) {
-              merged.set(arr, offset);
-              offset += arr.length;
+        if (utteranceCallback) {
+          // Continuous listening: nothing outside speech is kept, so memory stays bounded
+          if (vadEvent === 'speech_start') {
+            utterance = preRoll;
+            preRoll = [];
+          }
+          if (utterance) {
+            utterance.push(pcm);
+          } else {
+            preRoll.push(pcm);
+            let kept = preRoll.reduce((sum, chunk) => sum + chunk.length, 0);
+            while (preRoll.length > 1 && kept - preRoll[0].length >= preRollSamples) {
+              kept -= preRoll.shift()!.length;
+            }
+          }
+          if (vadEvent === 'speech_end' && utterance) {
+            const merged = concatInt16(utterance);
+            utterance = null;
+            if ((merged.length / AUDIO_CONFIG.sampleRate) * 1000 >= MIN_UTTERANCE_MS) {
+              utteranceCallback(merged);
             }
+          }
+        } else {
+          chunksRef.current.push(pcm);
+        }
 
-            // Convert and send
-            const int16Data = float32ToInt16(merged);
-            const base64Data = int16ToBase64(int16Data);
-            chunkCallback(base64Data);
+        // Streaming modes: one frame is one chunk
+        chunkCallback?.(pcm);
 
-            // Clear accumulated samples
-            accumulatedSamplesRef.current = [];
-          }
-        }, chunkIntervalMs);
+        if (vadEvent) vadCallback?.(vadEvent);
+      };
+
+      const capture = await createCaptureNode(audioContext, inputGain, {
+        targetSampleRate: AUDIO_CONFIG.sampleRate,
+        frameSamples: Math.round((chunkIntervalMs / 1000) * AUDIO_CONFIG.sampleRate),
+        onFrame: handleFrame,
+      });
+      // Stopped while the worklet module was loading
+      if (audioContextRef.current !== audioContext) {
+        capture.stop();
+        return;
       }
+      captureRef.current = capture;
 
       setIsRecording(true);
     } catch (error) {
@@ -154,20 +181,14 @@ export function useAudioRecorder(options: AudioRecorderOptions = {}) {
     }
   }, [onChunk, onVolumeChange, chunkIntervalMs, setIsRecording, setVolumeLevel]);
 
-  // Stop recording and return complete audio data
-  const stopRecording = useCallback((): string => {
+  // Tear down the capture graph and microphone; returns the audio recorded since start
+  const releaseCapture = useCallback((): Int16Array => {
     isRecordingRef.current = false;
 
-    // Clear chunk interval
-    if (chunkIntervalRef.current) {
-      clearInterval(chunkIntervalRef.current);
-      chunkIntervalRef.current = null;
-    }
-
     // Disconnect and close audio nodes
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
 
     if (sourceRef.current) {
@@ -186,69 +207,26 @@ export function useAudioRecorder(options: AudioRecorderOptions = {}) {
       streamRef.current = null;
     }
 
-    // Merge all chunks into single buffer
-    const totalLength = chunksRef.current.reduce((sum, arr) => sum + arr.length, 0);
-    const mergedData = new Int16Array(totalLength);
-    let offset = 0;
-    for (const chunk of chunksRef.current) {
-      mergedData.set(chunk, offset);
-      offset += chunk.length;
-    }
-
-    // Clear chunks
+    const recorded = concatInt16(chunksRef.current);
     chunksRef.current = [];
-    accumulatedSamplesRef.current = [];
 
     // Reset volume
     setVolumeLevel(0);
 
     setIsRecording(false);
-
-    // Return base64 encoded audio
-    return int16ToBase64(mergedData);
+    return recorded;
   }, [setIsRecording, setVolumeLevel]);
 
+  // Stop recording and return the complete recording as 16-bit PCM (including the last, shorter frame)
+  const stopRecording = useCallback(async (): Promise<Int16Array> => {
+    await captureRef.current?.flush();
+    return releaseCapture();
+  }, [releaseCapture]);
+
   // Cancel recording without returning data
   const cancelRecording = useCallback(() => {
-    isRecordingRef.current = false;
-
-    // Clear chunk interval
-    if (chunkIntervalRef.current) {
-      clearInterval(chunkIntervalRef.current);
-      chunkIntervalRef.current = null;
-    }
-
-    // Disconnect and close audio nodes
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
-    }
-
-    if (sourceRef.current) {
-      sourceRef.current.disconnect();
-      sourceRef.current = null;
-    }
-
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-
-    // Stop media stream
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
-    }
-
-    // Clear chunks
-    chunksRef.current = [];
-    accumulatedSamplesRef.current = [];
-
-    // Reset volume
-    setVolumeLevel(0);
-
-    setIsRecording(false);
-  }, [setIsRecording, setVolumeLevel]);
+    releaseCapture();
+  }, [releaseCapture]);
 
   return {
     startRecording,
@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { useChatStore } from '@/stores/chatStore';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import {
+  comboFromEvent,
+  comboKey,
+  findAction,
+  hotkeyCommands,
+  isEditableTarget,
+  worksWhileTyping,
+} from '@/utils/hotkeys';
+
+/** Global keyboard shortcuts (bindings from the store); mount once, in App. */
+export function useHotkeys() {
+  const { clearHistory, switchCharacter, interrupt } = useWebSocket();
+
+  useEffect(() => {
+    /** Key code of the hold shortcut in progress; its keyup ends the hold. */
+    let heldKey: string | null = null;
+
+    const endHold = () => {
+      if (heldKey === null) return;
+      heldKey = null;
+      hotkeyCommands.talkEnd();
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const combo = comboFromEvent(event);
+      if (!combo) return;
+      const store = useChatStore.getState();
+      const action = findAction(store.hotkeys, combo);
+
+      // The help overlay takes the keyboard: Esc or its own shortcut close it
+      if (store.isHotkeyHelpOpen) {
+        if (event.code === 'Escape' || action === 'show_help') {
+          event.preventDefault();
+          store.setHotkeyHelpOpen(false);
+        }
+        return;
+      }
+
+      if (!action) return;
+      if (isEditableTarget(event.target) && !worksWhileTyping(combo)) return;
+      event.preventDefault();
+      // Auto-repeat while a key is held is not a new press
+      if (event.repeat) return;
+
+      const connected = store.connectionStatus === 'connected';
+      switch (action) {
+        case 'push_to_talk':
+        case 'push_to_talk_stream':
+          if (heldKey !== null) return;
+          heldKey = comboKey(combo);
+          hotkeyCommands.talkStart(action === 'push_to_talk' ? 'push-to-talk' : 'push-to-talk-stream');
+          break;
+        case 'toggle_voice_call':
+          hotkeyCommands.toggleVoiceCall();
+          break;
+        case 'stop_playback':
+          if (store.isPlaying || store.isThinking || store.pipelineStage !== 'idle') interrupt();
+          break;
+        case 'clear_history':
+          if (connected) clearHistory();
+          break;
+        case 'next_character':
+        case 'previous_character': {
+          const { characters, currentCharacter } = store;
+          if (!connected || characters.length < 2) return;
+          const index = characters.findIndex((c) => c.name === currentCharacter?.name);
+          const step = action === 'next_character' ? 1 : -1;
+          switchCharacter(characters[(index + step + characters.length) % characters.length].name);
+          break;
+        }
+        case 'focus_input':
+          hotkeyCommands.focusInput();
+          break;
+        case 'show_help':
+          store.setHotkeyHelpOpen(true);
+          break;
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (heldKey === null || event.code !== heldKey) return;
+      // Also keeps a focused button from being "clicked" by the released Space
+      event.preventDefault();
+      endHold();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // Switching windows while holding never delivers the keyup
+    window.addEventListener('blur', endHold);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', endHold);
+      endHold();
+    };
+  }, [clearHistory, switchCharacter, interrupt]);
+}
@@ -183,7 +183,7 @@ export function useLive2D(primaryPath: string, fallbackPath?: string | null) {
       }
       try {
         if (typeof model.destroy === 'function') model.destroy({ children: true, texture: true });
-      } catch (_) {
+      } catch {
         // Ignore destroy errors
       }
       modelRef.current = null;
@@ -254,7 +254,7 @@ export function useLive2D(primaryPath: string, fallbackPath?: string | null) {
               autoInteract: false,
               autoUpdate: true,
             });
-          } catch (fallbackError) {
+          } catch {
             throw primaryError;
           }
         } else {
@@ -312,7 +312,7 @@ export function useLive2D(primaryPath: string, fallbackPath?: string | null) {
       const defaultExpression = USE_NEUTRAL_EXPRESSION_FOR_TEST ? (emotionExpressionMap.neutral ?? 'default') : emotionExpressionMap.idle;
       try {
         model.expression(defaultExpression);
-      } catch (_) {
+      } catch {
         // 模型可能没有 normal，忽略
       }
 
@@ -1,392 +1,43 @@
-import { useCallback, useEffect, useRef } from 'react';
-import { useChatStore } from '@/stores/chatStore';
-import type {
-  ClientMessage,
-  ServerMessage,
-  CharactersResponse,
-} from '@/utils/websocket';
-import { getApiBase, getWsEndpoint } from '@/config/api';
-const PING_INTERVAL = 30000; // 30 seconds
-const RECONNECT_DELAY = 3000; // 3 seconds
-const CONNECT_TIMEOUT_MS = 15000; // 15 seconds - avoid stuck "连接中..."
+import { useCallback } from 'react';
+import { chatController } from '@/utils/chatController';
 
+/** React binding of the app's chat controller; every action is a stable callback. */
 export function useWebSocket() {
-  const pingIntervalRef = useRef<number | null>(null);
-  const reconnectTimeoutRef = useRef<number | null>(null);
-  const connectTimeoutRef = useRef<number | null>(null);
-  
-  // Use selectors to only subscribe to specific state values we need for rendering
-  // Actions (setters) are always stable and don't cause re-renders
-  const setCharacters = useChatStore((state) => state.setCharacters);
-  const setConnectionStatus = useChatStore((state) => state.setConnectionStatus);
-  const setErrorMessage = useChatStore((state) => state.setErrorMessage);
-  const setCurrentCharacter = useChatStore((state) => state.setCurrentCharacter);
-  const setWs = useChatStore((state) => state.setWs);
-  const addMessage = useChatStore((state) => state.addMessage);
-  const setPartialTranscription = useChatStore((state) => state.setPartialTranscription);
-  const setPipelineStage = useChatStore((state) => state.setPipelineStage);
-  const setIsThinking = useChatStore((state) => state.setIsThinking);
-  const setIsPlaying = useChatStore((state) => state.setIsPlaying);
-  const clearMessages = useChatStore((state) => state.clearMessages);
-
-  // Fetch available characters
-  const fetchCharacters = useCallback(async () => {
-    try {
-      const response = await fetch(`${getApiBase()}/characters`);
-      if (response.ok) {
-        const data: CharactersResponse = await response.json();
-        setCharacters(data.characters);
-        return data.characters;
-      }
-    } catch (error) {
-      console.error('Failed to fetch characters:', error);
-    }
-    return [];
-  }, [setCharacters]);
-
-  // Send message through WebSocket - uses store's ws directly via getState()
-  const sendMessage = useCallback((message: ClientMessage) => {
-    const currentWs = useChatStore.getState().ws;
-    if (currentWs?.readyState === WebSocket.OPEN) {
-      currentWs.send(JSON.stringify(message));
-    } else {
-      console.error('WebSocket is not connected');
-    }
-  }, []);
-
-  // Handle incoming messages
-  const handleMessage = useCallback((event: MessageEvent) => {
-    try {
-      const message: ServerMessage = JSON.parse(event.data);
-      
-      switch (message.type) {
-        case 'connected': {
-          setConnectionStatus('connected');
-          const characters = useChatStore.getState().characters;
-          const fromList = characters.find((c) => c.name === message.character);
-          setCurrentCharacter(
-            fromList ?? {
-              name: message.character,
-              display_name: message.character_display_name,
-              description: '',
-              voice_id: '',
-            }
-          );
-          setErrorMessage(null);
-          break;
-        }
-
-        case 'disconnected':
-          setConnectionStatus('disconnected');
-          setErrorMessage(message.message);
-          break;
-
-        case 'thinking':
-          setIsThinking(true);
-          setPipelineStage('idle');
-          break;
-
-        case 'asr_start':
-          setPipelineStage('asr');
-          break;
-
-        case 'asr_end':
-          setPartialTranscription('');
-          addMessage({
-            id: crypto.randomUUID(),
-            role: 'user',
-            content: message.text,
-            timestamp: new Date(),
-          });
-          break;
-
-        case 'llm_start':
-          setPipelineStage('llm');
-          break;
-
-        case 'llm_end':
-          break;
-
-        case 'tts_start':
-          setPipelineStage('tts');
-          setIsThinking(false);
-          break;
-
-        case 'transcription':
-          if (message.is_partial) {
-            setPartialTranscription(message.text);
-          } else {
-            setPartialTranscription('');
-          }
-          break;
-
-        case 'audio_chunk':
-          setPipelineStage('playing');
-          setIsPlaying(true);
-          break;
-
-        case 'audio_end':
-          // Stream ended; do NOT set isPlaying(false) here - playback may still be
-          // draining the queue. useAudioPlayer will set isPlaying(false) and
-          // pipelineStage when the queue actually finishes (checkPlaybackEnded).
-          break;
-
-        case 'response':
-          // Per-sentence response (multi-sentence TTS: one response per sentence).
-          // Only add message; do NOT set pipeline to idle here — wait for turn_end.
-          setIsThinking(false);
-          addMessage({
-            id: crypto.randomUUID(),
-            role: 'assistant',
-            content: message.content_cn,
-            contentJp: message.content_jp,
-            emotion: message.emotion,
-            timestamp: new Date(),
-          });
-          break;
-
-        case 'turn_end':
-          // Turn complete (all sentences sent). Idle pipeline; playback may still be draining.
-          setIsThinking(false);
-          setPipelineStage('idle');
-          break;
-
-        case 'audio_stream_started':
-          break;
-
-        case 'voice_call_listening':
-          setPipelineStage('idle');
-          setIsThinking(false);
-          break;
-
-        case 'character_switched': {
-          const characters = useChatStore.getState().characters;
-          const fromList = characters.find((c) => c.name === message.character);
-          setCurrentCharacter(
-            fromList ?? {
-              name: message.character,
-              display_name: message.character_display_name,
-              description: '',
-              voice_id: '',
-            }
-          );
-          clearMessages();
-          break;
-        }
-
-        case 'history_cleared':
-          clearMessages();
-          break;
-
-        case 'pong':
-          break;
-
-        case 'error':
-          setErrorMessage(message.message);
-          setIsThinking(false);
-          setPipelineStage('idle');
-          break;
-      }
-    } catch (error) {
-      console.error('Failed to parse message:', error);
-    }
-  }, [
-    setConnectionStatus,
-    setCurrentCharacter,
-    setErrorMessage,
-    setIsThinking,
-    setPipelineStage,
-    setPartialTranscription,
-    addMessage,
-    setIsPlaying,
-    clearMessages,
-  ]);
-
-  // Connect to WebSocket
-  const connect = useCallback((characterName: string = 'anon') => {
-    const currentWs = useChatStore.getState().ws;
-    const currentToken = useChatStore.getState().apiToken;
-    
-    if (currentWs?.readyState === WebSocket.OPEN) {
-      return;
-    }
-
-    if (!currentToken) {
-      setErrorMessage('请输入 API Token');
-      return;
-    }
-
-    setConnectionStatus('connecting');
-    setErrorMessage(null);
-
-    const newWs = new WebSocket(getWsEndpoint());
-    setWs(newWs);
-
-    const clearConnectTimeout = () => {
-      if (connectTimeoutRef.current !== null) {
-        clearTimeout(connectTimeoutRef.current);
-        connectTimeoutRef.current = null;
-      }
-    };
-
-    connectTimeoutRef.current = window.setTimeout(() => {
-      connectTimeoutRef.current = null;
-      if (newWs.readyState === WebSocket.CONNECTING) {
-        newWs.close();
-        setConnectionStatus('error');
-        setErrorMessage('连接超时，请检查服务器是否已启动');
-        setWs(null);
-      }
-    }, CONNECT_TIMEOUT_MS);
-
-    newWs.onopen = () => {
-      clearConnectTimeout();
-      newWs.send(JSON.stringify({
-        type: 'connect',
-        api_token: currentToken,
-        character_name: characterName,
-      }));
-
-      // Start ping interval
-      pingIntervalRef.current = window.setInterval(() => {
-        const ws = useChatStore.getState().ws;
-        if (ws?.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({ type: 'ping' }));
-        }
-      }, PING_INTERVAL);
-    };
-
-    newWs.onmessage = handleMessage;
-
-    newWs.onerror = () => {
-      clearConnectTimeout();
-      setConnectionStatus('error');
-      setErrorMessage('连接错误');
-    };
-
-    newWs.onclose = () => {
-      clearConnectTimeout();
-      setConnectionStatus('disconnected');
-      setWs(null);
-
-      if (pingIntervalRef.current) {
-        clearInterval(pingIntervalRef.current);
-        pingIntervalRef.current = null;
-      }
-
-      // Auto reconnect only if was previously connected
-      const status = useChatStore.getState().connectionStatus;
-      if (status === 'connected') {
-        reconnectTimeoutRef.current = window.setTimeout(() => {
-          connect(characterName);
-        }, RECONNECT_DELAY);
-      }
-    };
-  }, [handleMessage, setConnectionStatus, setErrorMessage, setWs]);
-
-  // Disconnect from WebSocket
-  const disconnect = useCallback(() => {
-    if (connectTimeoutRef.current !== null) {
-      clearTimeout(connectTimeoutRef.current);
-      connectTimeoutRef.current = null;
-    }
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-
-    if (pingIntervalRef.current) {
-      clearInterval(pingIntervalRef.current);
-      pingIntervalRef.current = null;
-    }
-
-    const currentWs = useChatStore.getState().ws;
-    if (currentWs) {
-      currentWs.close();
-      setWs(null);
-    }
-
-    setConnectionStatus('disconnected');
-  }, [setConnectionStatus, setWs]);
-
-  // Send text message
-  const sendTextMessage = useCallback((content: string) => {
-    if (!content.trim()) return;
-    
-    addMessage({
-      id: crypto.randomUUID(),
-      role: 'user',
-      content,
-      timestamp: new Date(),
-    });
-    
-    sendMessage({
-      type: 'message',
-      content,
-    });
-  }, [addMessage, sendMessage]);
-
-  // Send audio message (batch)
-  const sendAudioMessage = useCallback((audioBase64: string) => {
-    sendMessage({
-      type: 'audio_message',
-      audio_base64: audioBase64,
-    });
-  }, [sendMessage]);
-
+  const fetchCharacters = useCallback(() => chatController.fetchCharacters(), []);
+  const connect = useCallback((characterName: string = 'anon') => chatController.connect(characterName), []);
+  const disconnect = useCallback(() => chatController.disconnect(), []);
+  // Queued in the client outbox while (re)connecting
+  const sendTextMessage = useCallback((content: string) => chatController.sendText(content), []);
+  const retryMessage = useCallback((id: string) => chatController.retryMessage(id), []);
+  const discardMessage = useCallback((id: string) => chatController.discardMessage(id), []);
+  const sendAudioMessage = useCallback((pcm: Int16Array) => chatController.sendAudioRecording(pcm), []);
+  // Streaming push-to-talk (audio_stream_* protocol)
+  const startAudioStream = useCallback(() => chatController.startAudioStream(), []);
+  const sendAudioStreamChunk = useCallback((pcm: Int16Array) => chatController.sendAudioStreamChunk(pcm), []);
+  const endAudioStream = useCallback(() => chatController.endAudioStream(), []);
   // Voice call (voice_call_* protocol)
-  const startVoiceCall = useCallback(() => {
-    sendMessage({ type: 'voice_call_start' });
-  }, [sendMessage]);
-
-  const sendVoiceCallChunk = useCallback((audioBase64: string) => {
-    sendMessage({
-      type: 'voice_call_audio_chunk',
-      audio_base64: audioBase64,
-    });
-  }, [sendMessage]);
-
-  const stopVoiceCall = useCallback(() => {
-    sendMessage({ type: 'voice_call_stop' });
-  }, [sendMessage]);
-
-  // Switch character
-  const switchCharacter = useCallback((characterName: string) => {
-    sendMessage({
-      type: 'switch_character',
-      character_name: characterName,
-    });
-  }, [sendMessage]);
-
-  // Clear history
-  const clearHistory = useCallback(() => {
-    sendMessage({ type: 'clear_history' });
-  }, [sendMessage]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (connectTimeoutRef.current !== null) {
-        clearTimeout(connectTimeoutRef.current);
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-      if (pingIntervalRef.current) {
-        clearInterval(pingIntervalRef.current);
-      }
-    };
-  }, []);
+  const startVoiceCall = useCallback(() => chatController.startVoiceCall(), []);
+  const sendVoiceCallChunk = useCallback((pcm: Int16Array) => chatController.sendVoiceCallChunk(pcm), []);
+  const stopVoiceCall = useCallback(() => chatController.stopVoiceCall(), []);
+  const switchCharacter = useCallback((characterName: string) => chatController.switchCharacter(characterName), []);
+  const interrupt = useCallback(() => chatController.interrupt(), []);
+  const clearHistory = useCallback(() => chatController.clearHistory(), []);
 
   return {
     connect,
     disconnect,
     sendTextMessage,
+    retryMessage,
+    discardMessage,
     sendAudioMessage,
+    startAudioStream,
+    sendAudioStreamChunk,
+    endAudioStream,
     startVoiceCall,
     sendVoiceCallChunk,
     stopVoiceCall,
     switchCharacter,
+    interrupt,
     clearHistory,
     fetchCharacters,
   };
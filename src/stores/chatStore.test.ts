@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useChatStore, type ChatMessage } from '@/stores/chatStore';
+import { hasTurnAudio, loadMessages, saveMessages, saveTurnAudio } from '@/utils/historyDb';
+import { parseTranscript, toTranscriptJson } from '@/utils/transcript';
+
+const CHARACTER = 'anon';
+
+function reply(turnId: string, content: string): ChatMessage {
+  return { id: crypto.randomUUID(), role: 'assistant', content, timestamp: new Date(), turnId, hasAudio: true };
+}
+
+/** A thread of the character with one voiced turn, exported and imported again as a read-only copy. */
+async function sourceAndImport() {
+  await useChatStore.getState().loadHistory(CHARACTER);
+  const source = useChatStore.getState().activeSession!;
+  const turnId = crypto.randomUUID();
+  const messages = [reply(turnId, '你好')];
+  await saveMessages(CHARACTER, source.sessionId, messages);
+  await saveTurnAudio({ turnId, sampleRate: 24000, pcm: new Int16Array(240) });
+  const record = useChatStore.getState().sessions.find((s) => s.id === source.sessionId)!;
+  const file = parseTranscript(toTranscriptJson({ session: record, characterDisplayName: '爱音', messages }));
+  const imported = await useChatStore.getState().importTranscript(file);
+  return { sourceId: source.sessionId, importedId: imported.id, turnId };
+}
+
+describe('imported sessions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useChatStore.getState().reset();
+  });
+
+  it('keep the replay of turns whose voice is stored here', async () => {
+    const { importedId, turnId } = await sourceAndImport();
+    const [copy] = await loadMessages(CHARACTER, importedId);
+    expect(copy).toMatchObject({ turnId, hasAudio: true, content: '你好' });
+  });
+
+  it('leave the original thread its voice when deleted', async () => {
+    const { sourceId, importedId, turnId } = await sourceAndImport();
+
+    await useChatStore.getState().deleteSession(importedId);
+    expect(await loadMessages(CHARACTER, importedId)).toEqual([]);
+    expect(await hasTurnAudio(turnId)).toBe(true);
+
+    // The voice goes with the last message that refers to it
+    await useChatStore.getState().deleteSession(sourceId);
+    expect(await hasTurnAudio(turnId)).toBe(false);
+  });
+
+  it('keep their messages when one is deleted while viewing them', async () => {
+    const { importedId, turnId } = await sourceAndImport();
+    await useChatStore.getState().loadHistory(CHARACTER, importedId);
+    const [copy] = useChatStore.getState().messages;
+
+    useChatStore.getState().deleteMessage(copy.id);
+    useChatStore.getState().truncateTurn(turnId, { [copy.id]: [0] });
+    expect(useChatStore.getState().messages).toEqual([copy]);
+    expect(await loadMessages(CHARACTER, importedId)).toHaveLength(1);
+  });
+});
+
+describe('removing replies', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useChatStore.getState().reset();
+  });
+
+  /** The live thread with one stored, voiced turn of two messages. */
+  async function voicedTurn() {
+    await useChatStore.getState().loadHistory(CHARACTER);
+    const turnId = crypto.randomUUID();
+    const messages = [reply(turnId, '第一句'), reply(turnId, '第二句')];
+    const { sessionId } = useChatStore.getState().activeSession!;
+    await saveMessages(CHARACTER, sessionId, messages);
+    await saveTurnAudio({ turnId, sampleRate: 24000, pcm: new Int16Array(240) });
+    await useChatStore.getState().loadHistory(CHARACTER);
+    return { sessionId, turnId, messages };
+  }
+
+  /** Let the store's fire-and-forget writes reach the database. */
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  it('deletes the voice together with the last message of its turn', async () => {
+    const { sessionId, turnId, messages } = await voicedTurn();
+
+    useChatStore.getState().deleteMessage(messages[0].id);
+    await settle();
+    expect(await hasTurnAudio(turnId)).toBe(true);
+
+    useChatStore.getState().deleteMessage(messages[1].id);
+    await settle();
+    expect(await loadMessages(CHARACTER, sessionId)).toEqual([]);
+    expect(await hasTurnAudio(turnId)).toBe(false);
+  });
+
+  it('drops the voice of a turn cut short by barge-in', async () => {
+    const { sessionId, turnId, messages } = await voicedTurn();
+
+    useChatStore.getState().truncateTurn(turnId, { [messages[0].id]: [0.5], [messages[1].id]: [0] });
+    await settle();
+    const stored = await loadMessages(CHARACTER, sessionId);
+    expect(stored).toHaveLength(1);
+    expect(stored[0]).toMatchObject({ content: '第一…', interrupted: true, hasAudio: undefined });
+    expect(await hasTurnAudio(turnId)).toBe(false);
+  });
+});
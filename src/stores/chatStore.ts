@@ -1,28 +1,126 @@
 import { create } from 'zustand';
-import type { Character, PipelineStage } from '@/utils/websocket';
+import type { AudioUploadFormat, Character, PipelineStage } from '@/utils/websocket';
+import type { TranscriptFile } from '@/utils/transcript';
+import type { ConnectionStatus, LatencySample } from '@/utils/chatClient';
+import type { ReconnectSchedule } from '@/utils/reconnect';
+import type { ProtocolViolation } from '@/utils/messageSchema';
+import type { TurnTrace } from '@/utils/turnTrace';
+import { DEFAULT_VAD_CONFIG, type VadConfig } from '@/utils/vad';
+import { DEFAULT_JITTER_BUFFER_CONFIG } from '@/utils/jitterBuffer';
+import type { MicCalibration } from '@/utils/micCalibration';
+import { DEFAULT_HOTKEYS, type HotkeyAction, type HotkeyBindings } from '@/utils/hotkeys';
+import { DEFAULT_SUBTITLE_CONFIG, type SubtitleConfig } from '@/utils/subtitles';
+import {
+  loadMessages,
+  saveMessage,
+  saveMessages,
+  deleteMessages,
+  loadSessions as loadStoredSessions,
+  saveSession,
+  deleteSession as deleteStoredSession,
+  hasTurnAudio,
+  deleteTurnAudio,
+} from '@/utils/historyDb';
+
+/** One spoken sentence (`response`) of an assistant reply. */
+export interface MessageSegment {
+  content: string;
+  contentJp?: string;
+  emotion?: string;
+}
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
+  /** For a reply with segments: their texts joined (emotion is the latest segment's). */
   content: string;
   contentJp?: string;
   emotion?: string;
   timestamp: Date;
+  /** A reply still receiving sentences (until turn_end). */
   isPartial?: boolean;
+  /** Sentences of a reply, in order; a turn's `response` messages are merged into one bubble. */
+  segments?: MessageSegment[];
+  /** How a user message was entered; recognized speech is 'voice'. Assistant replies are always spoken. */
+  source?: 'text' | 'voice';
+  /** Assistant turn (llm_start .. turn_end) this reply belongs to. */
+  turnId?: string;
+  /** Decoded reply audio for turnId is stored and can be replayed/downloaded. */
+  hasAudio?: boolean;
+  /** Outbox state of a user text message; 'pending' while queued for the connection. */
+  deliveryStatus?: 'pending' | 'sent' | 'failed';
+  /** The user barged in while this reply was spoken; content is cut to what was heard. */
+  interrupted?: boolean;
+}
+
+/** Conversation thread the in-memory messages belong to; messages are persisted under this key. */
+export interface ActiveSession {
+  character: string;
+  sessionId: string;
+  /** Viewing a read-only (imported) session; live traffic still belongs to the character's active thread. */
+  readOnly?: boolean;
 }
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
-export type VoiceMode = 'idle' | 'push-to-talk' | 'voice_call';
+/** Locally stored conversation thread; its messages live in IndexedDB under [character, id]. */
+export interface ChatSession {
+  id: string;
+  character: string;
+  /** Empty until the user renames the session; the sidebar falls back to the preview. */
+  title: string;
+  /** Start of the latest message, shown in the session list and used for search. */
+  preview: string;
+  /** Live2D model set the session was created with; re-applied when the session is selected. */
+  live2dModelSet?: string;
+  archived: boolean;
+  /** Imported transcripts are only viewed; live traffic goes to the character's own thread meanwhile. */
+  readOnly?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type { ConnectionStatus };
+
+/** Playback position within a reply: `fraction` of segment `segment` of message `messageId` is heard. */
+export interface SpeechProgress {
+  messageId: string;
+  segment: number;
+  fraction: number;
+}
+
+/** Reply sentence currently audible: its bubble segment and the text/emotion of its tts_start. */
+export interface SpokenSentence {
+  messageId: string;
+  segment: number;
+  text: string;
+  emotion?: string;
+}
+/**
+ * 'vad': local voice activity detection sends each detected utterance as an audio message.
+ * 'push-to-talk-stream': held like push-to-talk, but audio is streamed (audio_stream_*) so ASR starts early.
+ */
+export type VoiceMode = 'idle' | 'push-to-talk' | 'push-to-talk-stream' | 'voice_call' | 'vad';
+/** 'starting': audio_stream_start sent, chunks held until audio_stream_started. */
+export type AudioStreamStatus = 'idle' | 'starting' | 'streaming';
 
 interface ChatState {
   // Connection
   connectionStatus: ConnectionStatus;
   errorMessage: string | null;
   apiToken: string;
+  /** Pending automatic reconnect attempt, for the countdown in Header. */
+  reconnectSchedule: ReconnectSchedule | null;
   
-  // WebSocket - shared instance
-  ws: WebSocket | null;
-  setWs: (ws: WebSocket | null) => void;
+  // Protocol diagnostics
+  /** Most recent rejected frames, newest last (capped). */
+  protocolViolations: ProtocolViolation[];
+  /** Total rejected frames since load (not capped). */
+  protocolViolationCount: number;
+  /** Heartbeat round trips, oldest first (rolling window). */
+  latencySamples: LatencySample[];
+  /** Consecutive pings without a pong on the current socket. */
+  missedPongs: number;
+  /** Pipeline timing of recent turns, oldest first (in memory only, capped). */
+  turnTraces: TurnTrace[];
   
   // Character
   currentCharacter: Character | null;
@@ -31,100 +129,541 @@ interface ChatState {
   // Messages
   messages: ChatMessage[];
   partialTranscription: string;
+  activeSession: ActiveSession | null;
+  
+  // Sessions
+  sessions: ChatSession[];
+  /** Session list drawer on narrow screens (the sidebar is desktop-only). */
+  isSessionDrawerOpen: boolean;
   
   // Pipeline
   pipelineStage: PipelineStage;
   isThinking: boolean;
+  /** Id of the latest assistant turn; set on llm_start and kept until the next one. */
+  currentTurnId: string | null;
+  /** Turn the user barged in on; its remaining replies and audio are ignored. */
+  interruptedTurnId: string | null;
   
   // Voice
   voiceMode: VoiceMode;
+  audioStreamStatus: AudioStreamStatus;
   isRecording: boolean;
   isPlaying: boolean;
   volumeLevel: number;
   /** Shared ref updated every frame by audio player; lip sync reads this to avoid React batching lag. */
   volumeLevelRef: { current: number };
+  /** Reply sentence being heard, updated every frame by the audio player like volumeLevelRef. */
+  speechProgressRef: { current: SpeechProgress | null };
+  /** Reply sentence being heard; set by the audio player when the sentence changes. */
+  spokenSentence: SpokenSentence | null;
+  /** Minimum audio buffered before a reply starts playing (persisted). */
+  playbackPreRollMs: number;
+  /** Current adaptive jitter buffer target. */
+  jitterTargetMs: number;
+  /** Times playback ran dry in the middle of a sentence since the page loaded. */
+  underrunCount: number;
+  /** The user paused the reply (AudioContext suspended). */
+  isPlaybackPaused: boolean;
+  /** Reply playback speed (persisted). */
+  playbackRate: number;
+  /** The current or last reply has audio that can be replayed from the player. */
+  hasReplyAudio: boolean;
+  /** Chosen microphone / speaker; '' is the system default (persisted). */
+  audioInputDeviceId: string;
+  audioOutputDeviceId: string;
+  /** Master reply volume 0..1 and mute (persisted). */
+  outputVolume: number;
+  isOutputMuted: boolean;
+  /** Result of the microphone setup wizard (persisted); null = uncalibrated. */
+  micCalibration: MicCalibration | null;
+  /** Thresholds of the local VAD mode (persisted). */
+  vadConfig: VadConfig;
+  /** Local VAD currently hears speech. */
+  isSpeechDetected: boolean;
+  /** Requested microphone upload encoding (persisted); applied from the next connect. */
+  audioUploadFormat: AudioUploadFormat;
   
   // Theme
   isDarkMode: boolean;
+
+  // Keyboard
+  /** Shortcut per action (persisted). */
+  hotkeys: HotkeyBindings;
+  isHotkeyHelpOpen: boolean;
+
+  // Stage
+  /** Subtitle overlay on the Live2D canvas (persisted). */
+  subtitleConfig: SubtitleConfig;
   
   // Actions
   setConnectionStatus: (status: ConnectionStatus) => void;
   setErrorMessage: (message: string | null) => void;
+  setReconnectSchedule: (schedule: ReconnectSchedule | null) => void;
+  addProtocolViolation: (violation: ProtocolViolation) => void;
+  clearProtocolViolations: () => void;
+  addLatencySample: (sample: LatencySample) => void;
+  setMissedPongs: (missed: number) => void;
+  /** Insert or replace the trace of trace.turnId. */
+  upsertTurnTrace: (trace: TurnTrace) => void;
   setApiToken: (token: string) => void;
   setCurrentCharacter: (character: Character | null) => void;
   setCharacters: (characters: Character[]) => void;
   addMessage: (message: ChatMessage) => void;
-  updateLastMessage: (content: string, isPartial?: boolean) => void;
+  updateLastMessage: (patch: Partial<Omit<ChatMessage, 'id'>>) => void;
+  /** Add a sentence to the turn's reply bubble, creating it (partial) for the first one. */
+  appendReplySegment: (turnId: string | null, segment: MessageSegment) => void;
+  /** The turn's reply is complete (turn_end, or the turn died). */
+  finalizeTurn: (turnId: string) => void;
+  updateMessage: (id: string, patch: Partial<Omit<ChatMessage, 'id'>>) => void;
+  deleteMessage: (id: string) => void;
+  /** Flag every message of the turn as having stored audio. */
+  markTurnAudio: (turnId: string) => void;
+  /**
+   * Cut an interrupted turn to what was heard: `heard` maps message id to the played fraction
+   * of each segment's audio. Messages of the turn without an entry were never heard and are removed.
+   */
+  truncateTurn: (turnId: string, heard: Record<string, number[]>) => void;
   setPartialTranscription: (text: string) => void;
   setPipelineStage: (stage: PipelineStage) => void;
   setIsThinking: (thinking: boolean) => void;
+  setCurrentTurnId: (turnId: string | null) => void;
+  setInterruptedTurnId: (turnId: string | null) => void;
   setVoiceMode: (mode: VoiceMode) => void;
+  setAudioStreamStatus: (status: AudioStreamStatus) => void;
   setIsRecording: (recording: boolean) => void;
   setIsPlaying: (playing: boolean) => void;
   setVolumeLevel: (level: number) => void;
+  setSpokenSentence: (sentence: SpokenSentence | null) => void;
+  setPlaybackPreRollMs: (ms: number) => void;
+  setJitterTargetMs: (ms: number) => void;
+  recordUnderrun: () => void;
+  setIsPlaybackPaused: (paused: boolean) => void;
+  setPlaybackRate: (rate: number) => void;
+  setHasReplyAudio: (hasAudio: boolean) => void;
+  setAudioInputDeviceId: (deviceId: string) => void;
+  setAudioOutputDeviceId: (deviceId: string) => void;
+  setOutputVolume: (volume: number) => void;
+  toggleOutputMuted: () => void;
+  setMicCalibration: (calibration: MicCalibration | null) => void;
+  setVadConfig: (patch: Partial<VadConfig>) => void;
+  setIsSpeechDetected: (detected: boolean) => void;
+  setAudioUploadFormat: (format: AudioUploadFormat) => void;
   toggleDarkMode: () => void;
+  /** Bind `combo` to `action`; another action holding the same combo is unbound. */
+  setHotkey: (action: HotkeyAction, combo: string) => void;
+  resetHotkeys: () => void;
+  setHotkeyHelpOpen: (open: boolean) => void;
+  setSubtitleConfig: (patch: Partial<SubtitleConfig>) => void;
   clearMessages: () => void;
+  /**
+   * Switch the visible thread to the character's active session and rehydrate it from IndexedDB.
+   * With `viewSessionId`, show that read-only session instead without making it the active thread.
+   */
+  loadHistory: (character: string, viewSessionId?: string) => Promise<void>;
+  loadSessions: () => Promise<ChatSession[]>;
+  createSession: (character: string) => Promise<ChatSession>;
+  /**
+   * Make the session the active thread of its character and show it; caller switches character on the server if needed.
+   * Read-only sessions are only shown.
+   */
+  selectSession: (sessionId: string) => Promise<ChatSession | null>;
+  updateSession: (sessionId: string, patch: Partial<Omit<ChatSession, 'id' | 'character'>>) => void;
+  deleteSession: (sessionId: string) => Promise<void>;
+  setSessionDrawerOpen: (open: boolean) => void;
+  /** Store a validated transcript as a new read-only session and show it. */
+  importTranscript: (file: TranscriptFile) => Promise<ChatSession>;
   reset: () => void;
 }
 
+/** localStorage key of the VAD thresholds. */
+const VAD_CONFIG_KEY = 'vadConfig';
+
+function readVadConfig(): VadConfig {
+  try {
+    const raw = localStorage.getItem(VAD_CONFIG_KEY);
+    return raw ? { ...DEFAULT_VAD_CONFIG, ...JSON.parse(raw) } : DEFAULT_VAD_CONFIG;
+  } catch {
+    return DEFAULT_VAD_CONFIG;
+  }
+}
+
+/** Numeric setting from localStorage; `fallback` when missing or not a number. */
+function readStoredNumber(key: string, fallback: number): number {
+  const raw = localStorage.getItem(key);
+  const value = raw === null ? NaN : Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/** localStorage key of the microphone calibration. */
+const MIC_CALIBRATION_KEY = 'micCalibration';
+
+function readMicCalibration(): MicCalibration | null {
+  try {
+    const raw = localStorage.getItem(MIC_CALIBRATION_KEY);
+    return raw ? (JSON.parse(raw) as MicCalibration) : null;
+  } catch {
+    return null;
+  }
+}
+
+const HOTKEYS_KEY = 'hotkeys';
+
+function readHotkeys(): HotkeyBindings {
+  try {
+    const raw = localStorage.getItem(HOTKEYS_KEY);
+    return raw ? { ...DEFAULT_HOTKEYS, ...JSON.parse(raw) } : DEFAULT_HOTKEYS;
+  } catch {
+    return DEFAULT_HOTKEYS;
+  }
+}
+
+const SUBTITLE_CONFIG_KEY = 'subtitleConfig';
+
+function readSubtitleConfig(): SubtitleConfig {
+  try {
+    const raw = localStorage.getItem(SUBTITLE_CONFIG_KEY);
+    return raw ? { ...DEFAULT_SUBTITLE_CONFIG, ...JSON.parse(raw) } : DEFAULT_SUBTITLE_CONFIG;
+  } catch {
+    return DEFAULT_SUBTITLE_CONFIG;
+  }
+}
+
 const initialState = {
   connectionStatus: 'disconnected' as ConnectionStatus,
   errorMessage: null,
   apiToken: localStorage.getItem('apiToken') || '',
-  ws: null as WebSocket | null,
+  reconnectSchedule: null as ReconnectSchedule | null,
+  protocolViolations: [] as ProtocolViolation[],
+  protocolViolationCount: 0,
+  latencySamples: [] as LatencySample[],
+  missedPongs: 0,
+  turnTraces: [] as TurnTrace[],
   currentCharacter: null,
   characters: [],
   messages: [],
   partialTranscription: '',
+  activeSession: null as ActiveSession | null,
+  sessions: [] as ChatSession[],
+  isSessionDrawerOpen: false,
   pipelineStage: 'idle' as PipelineStage,
   isThinking: false,
+  currentTurnId: null as string | null,
+  interruptedTurnId: null as string | null,
   voiceMode: 'idle' as VoiceMode,
+  audioStreamStatus: 'idle' as AudioStreamStatus,
   isRecording: false,
   isPlaying: false,
   volumeLevel: 0,
   volumeLevelRef: { current: 0 },
+  speechProgressRef: { current: null as SpeechProgress | null },
+  spokenSentence: null,
+  playbackPreRollMs: readStoredNumber('playbackPreRollMs', DEFAULT_JITTER_BUFFER_CONFIG.preRollMs),
+  jitterTargetMs: DEFAULT_JITTER_BUFFER_CONFIG.preRollMs,
+  underrunCount: 0,
+  isPlaybackPaused: false,
+  playbackRate: readStoredNumber('playbackRate', 1),
+  hasReplyAudio: false,
+  audioInputDeviceId: localStorage.getItem('audioInputDeviceId') || '',
+  audioOutputDeviceId: localStorage.getItem('audioOutputDeviceId') || '',
+  outputVolume: readStoredNumber('outputVolume', 1),
+  isOutputMuted: localStorage.getItem('outputMuted') === 'true',
+  micCalibration: readMicCalibration(),
+  vadConfig: readVadConfig(),
+  isSpeechDetected: false,
+  audioUploadFormat: (localStorage.getItem('audioUploadFormat') === 'opus' ? 'opus' : 'pcm_s16le') as AudioUploadFormat,
   isDarkMode: localStorage.getItem('darkMode') !== 'false',
+  hotkeys: readHotkeys(),
+  isHotkeyHelpOpen: false,
+  subtitleConfig: readSubtitleConfig(),
 };
 
-export const useChatStore = create<ChatState>((set) => ({
+/** localStorage key: character name -> session id of the thread shown for that character. */
+const ACTIVE_SESSIONS_KEY = 'activeSessions';
+/** localStorage key: character of the last shown thread, restored on page load before connecting. */
+export const LAST_CHARACTER_KEY = 'lastCharacter';
+
+function readActiveSessions(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(ACTIVE_SESSIONS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function setActiveSessionId(character: string, sessionId: string | null) {
+  const sessions = readActiveSessions();
+  if (sessionId) {
+    sessions[character] = sessionId;
+  } else {
+    delete sessions[character];
+  }
+  localStorage.setItem(ACTIVE_SESSIONS_KEY, JSON.stringify(sessions));
+}
+
+/** Session id currently used for the character; creates and remembers one on first use. */
+export function getActiveSessionId(character: string): string {
+  let sessionId = readActiveSessions()[character];
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    setActiveSessionId(character, sessionId);
+  }
+  return sessionId;
+}
+
+/** Message fields of a reply made of `segments`. */
+function fromSegments(segments: MessageSegment[]): Pick<ChatMessage, 'segments' | 'content' | 'contentJp' | 'emotion'> {
+  const contentJp = segments.map((segment) => segment.contentJp ?? '').join('');
+  return {
+    segments,
+    content: segments.map((segment) => segment.content).join(''),
+    contentJp: contentJp || undefined,
+    emotion: segments[segments.length - 1]?.emotion,
+  };
+}
+
+const PREVIEW_LENGTH = 60;
+const MAX_PROTOCOL_VIOLATIONS = 50;
+const MAX_LATENCY_SAMPLES = 40;
+const MAX_TURN_TRACES = 200;
+
+/** Fire-and-forget write; persistence failures must never break the live conversation. */
+function persist(task: Promise<void>) {
+  task.catch((error) => console.error('Failed to persist chat history:', error));
+}
+
+export const useChatStore = create<ChatState>((set, get) => ({
   ...initialState,
 
   setConnectionStatus: (status) => set({ connectionStatus: status }),
   setErrorMessage: (message) => set({ errorMessage: message }),
+  setReconnectSchedule: (schedule) => set({ reconnectSchedule: schedule }),
+  addProtocolViolation: (violation) =>
+    set((state) => ({
+      protocolViolations: [...state.protocolViolations, violation].slice(-MAX_PROTOCOL_VIOLATIONS),
+      protocolViolationCount: state.protocolViolationCount + 1,
+    })),
+  clearProtocolViolations: () => set({ protocolViolations: [], protocolViolationCount: 0 }),
+  addLatencySample: (sample) =>
+    set((state) => ({
+      latencySamples: [...state.latencySamples, sample].slice(-MAX_LATENCY_SAMPLES),
+    })),
+  setMissedPongs: (missed) => set({ missedPongs: missed }),
+  upsertTurnTrace: (trace) => {
+    if (!trace.turnId) return;
+    set((state) => {
+      const index = state.turnTraces.findIndex((t) => t.turnId === trace.turnId);
+      if (index === -1) {
+        return { turnTraces: [...state.turnTraces, trace].slice(-MAX_TURN_TRACES) };
+      }
+      const turnTraces = [...state.turnTraces];
+      turnTraces[index] = trace;
+      return { turnTraces };
+    });
+  },
   setApiToken: (token) => {
     localStorage.setItem('apiToken', token);
     set({ apiToken: token });
   },
-  setWs: (ws) => set({ ws }),
   setCurrentCharacter: (character) => set({ currentCharacter: character }),
   setCharacters: (characters) => set({ characters }),
   
-  addMessage: (message) =>
+  addMessage: (message) => {
+    // Live traffic never goes into a viewed import: return to the character's own thread first
+    const viewed = get().activeSession;
+    if (viewed?.readOnly) {
+      void get().loadHistory(viewed.character);
+    }
     set((state) => ({
       messages: [...state.messages, message],
-    })),
+    }));
+    const session = get().activeSession;
+    if (session) {
+      persist(saveMessage(session.character, session.sessionId, message));
+      get().updateSession(session.sessionId, {
+        preview: message.content.slice(0, PREVIEW_LENGTH),
+        updatedAt: Date.now(),
+      });
+    }
+  },
     
-  updateLastMessage: (content, isPartial = false) =>
+  updateLastMessage: (patch) => {
+    if (get().activeSession?.readOnly) return;
     set((state) => {
       const messages = [...state.messages];
       if (messages.length > 0) {
-        const lastMessage = messages[messages.length - 1];
-        messages[messages.length - 1] = {
-          ...lastMessage,
-          content,
-          isPartial,
-        };
+        messages[messages.length - 1] = { ...messages[messages.length - 1], ...patch };
       }
       return { messages };
-    }),
+    });
+    const { activeSession: session, messages } = get();
+    const lastMessage = messages[messages.length - 1];
+    if (session && lastMessage) {
+      persist(saveMessage(session.character, session.sessionId, lastMessage));
+      if (patch.content !== undefined) {
+        get().updateSession(session.sessionId, { preview: lastMessage.content.slice(0, PREVIEW_LENGTH) });
+      }
+    }
+  },
+
+  appendReplySegment: (turnId, segment) => {
+    const last = get().messages[get().messages.length - 1];
+    if (turnId && last?.role === 'assistant' && last.isPartial && last.turnId === turnId) {
+      get().updateLastMessage(fromSegments([...(last.segments ?? []), segment]));
+      return;
+    }
+    get().addMessage({
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      ...fromSegments([segment]),
+      timestamp: new Date(),
+      isPartial: true,
+      turnId: turnId ?? undefined,
+    });
+  },
+
+  finalizeTurn: (turnId) => {
+    for (const message of get().messages) {
+      if (message.turnId === turnId && message.isPartial) {
+        get().updateMessage(message.id, { isPartial: false });
+      }
+    }
+  },
+    
+  updateMessage: (id, patch) => {
+    if (get().activeSession?.readOnly) return;
+    set((state) => ({
+      messages: state.messages.map((m) => (m.id === id ? { ...m, ...patch } : m)),
+    }));
+    const { activeSession: session, messages } = get();
+    const message = messages.find((m) => m.id === id);
+    if (session && message) {
+      persist(saveMessage(session.character, session.sessionId, message));
+    }
+  },
+
+  deleteMessage: (id) => {
+    if (get().activeSession?.readOnly) return;
+    set((state) => ({ messages: state.messages.filter((m) => m.id !== id) }));
+    const session = get().activeSession;
+    if (session) {
+      persist(deleteMessages(session.character, session.sessionId, [id]));
+    }
+  },
+
+  markTurnAudio: (turnId) => {
+    for (const message of get().messages) {
+      // A reply cut by barge-in lost its audio (truncateTurn) even if the save was still in flight
+      if (message.turnId === turnId && !message.hasAudio && !message.interrupted) {
+        get().updateMessage(message.id, { hasAudio: true });
+      }
+    }
+  },
+
+  truncateTurn: (turnId, heard) => {
+    if (get().activeSession?.readOnly) return;
+    const cut = (text: string, fraction: number) =>
+      fraction >= 1 ? text : `${text.slice(0, Math.round(text.length * fraction))}…`;
+    let isCut = false;
+    for (const message of get().messages) {
+      if (message.turnId !== turnId || message.role !== 'assistant') continue;
+      const fractions = heard[message.id] ?? [];
+      const segments = message.segments ?? [
+        { content: message.content, contentJp: message.contentJp, emotion: message.emotion },
+      ];
+      // Keep the sentences heard in full, and the one cut off mid-way
+      const kept: MessageSegment[] = [];
+      for (const [index, segment] of segments.entries()) {
+        const fraction = fractions[index] ?? 0;
+        if (fraction <= 0) break;
+        kept.push({
+          ...segment,
+          content: cut(segment.content, fraction),
+          contentJp: segment.contentJp && cut(segment.contentJp, fraction),
+        });
+        if (fraction < 1) break;
+      }
+      if (kept.length === 0) {
+        isCut = true;
+        get().deleteMessage(message.id);
+      } else if (kept.length < segments.length || (fractions[kept.length - 1] ?? 0) < 1) {
+        isCut = true;
+        get().updateMessage(message.id, {
+          ...fromSegments(kept),
+          isPartial: false,
+          interrupted: true,
+          hasAudio: undefined,
+        });
+      } else if (message.isPartial) {
+        get().updateMessage(message.id, { isPartial: false });
+      }
+    }
+    // Audio stored before the cut (turn_end came while it was still playing) no longer matches the text
+    if (isCut) {
+      persist(deleteTurnAudio(turnId));
+    }
+  },
     
   setPartialTranscription: (text) => set({ partialTranscription: text }),
   setPipelineStage: (stage) => set({ pipelineStage: stage }),
   setIsThinking: (thinking) => set({ isThinking: thinking }),
+  setCurrentTurnId: (turnId) => set({ currentTurnId: turnId }),
+  setInterruptedTurnId: (turnId) => set({ interruptedTurnId: turnId }),
   setVoiceMode: (mode) => set({ voiceMode: mode }),
+  setAudioStreamStatus: (status) => set({ audioStreamStatus: status }),
   setIsRecording: (recording) => set({ isRecording: recording }),
   setIsPlaying: (playing) => set({ isPlaying: playing }),
   setVolumeLevel: (level) => set({ volumeLevel: level }),
+  setSpokenSentence: (sentence) => set({ spokenSentence: sentence }),
+  setPlaybackPreRollMs: (ms) => {
+    localStorage.setItem('playbackPreRollMs', String(ms));
+    set({ playbackPreRollMs: ms });
+  },
+  setJitterTargetMs: (ms) => set({ jitterTargetMs: ms }),
+  recordUnderrun: () => set((state) => ({ underrunCount: state.underrunCount + 1 })),
+  setIsPlaybackPaused: (paused) => set({ isPlaybackPaused: paused }),
+  setPlaybackRate: (rate) => {
+    localStorage.setItem('playbackRate', String(rate));
+    set({ playbackRate: rate });
+  },
+  setHasReplyAudio: (hasAudio) => set({ hasReplyAudio: hasAudio }),
+  setAudioInputDeviceId: (deviceId) => {
+    localStorage.setItem('audioInputDeviceId', deviceId);
+    set({ audioInputDeviceId: deviceId });
+  },
+  setAudioOutputDeviceId: (deviceId) => {
+    localStorage.setItem('audioOutputDeviceId', deviceId);
+    set({ audioOutputDeviceId: deviceId });
+  },
+  setOutputVolume: (volume) => {
+    localStorage.setItem('outputVolume', String(volume));
+    set({ outputVolume: volume });
+  },
+  setMicCalibration: (calibration) => {
+    if (calibration) {
+      localStorage.setItem(MIC_CALIBRATION_KEY, JSON.stringify(calibration));
+    } else {
+      localStorage.removeItem(MIC_CALIBRATION_KEY);
+    }
+    set({ micCalibration: calibration });
+  },
+  toggleOutputMuted: () =>
+    set((state) => {
+      const muted = !state.isOutputMuted;
+      localStorage.setItem('outputMuted', String(muted));
+      return { isOutputMuted: muted };
+    }),
+  setVadConfig: (patch) =>
+    set((state) => {
+      const vadConfig = { ...state.vadConfig, ...patch };
+      localStorage.setItem(VAD_CONFIG_KEY, JSON.stringify(vadConfig));
+      return { vadConfig };
+    }),
+  setIsSpeechDetected: (detected) => set({ isSpeechDetected: detected }),
+  setAudioUploadFormat: (format) => {
+    localStorage.setItem('audioUploadFormat', format);
+    set({ audioUploadFormat: format });
+  },
   
   toggleDarkMode: () =>
     set((state) => {
@@ -132,11 +671,250 @@ export const useChatStore = create<ChatState>((set) => ({
       localStorage.setItem('darkMode', String(newDarkMode));
       return { isDarkMode: newDarkMode };
     }),
+
+  setHotkey: (action, combo) =>
+    set((state) => {
+      const hotkeys = { ...state.hotkeys };
+      for (const other of Object.keys(hotkeys) as HotkeyAction[]) {
+        if (combo && hotkeys[other] === combo) hotkeys[other] = '';
+      }
+      hotkeys[action] = combo;
+      localStorage.setItem(HOTKEYS_KEY, JSON.stringify(hotkeys));
+      return { hotkeys };
+    }),
+  resetHotkeys: () => {
+    localStorage.removeItem(HOTKEYS_KEY);
+    set({ hotkeys: DEFAULT_HOTKEYS });
+  },
+  setHotkeyHelpOpen: (open) => set({ isHotkeyHelpOpen: open }),
+  setSubtitleConfig: (patch) =>
+    set((state) => {
+      const subtitleConfig = { ...state.subtitleConfig, ...patch };
+      localStorage.setItem(SUBTITLE_CONFIG_KEY, JSON.stringify(subtitleConfig));
+      return { subtitleConfig };
+    }),
     
-  clearMessages: () => set({ messages: [], partialTranscription: '' }),
+  clearMessages: () => {
+    const session = get().activeSession;
+    // history_cleared while viewing an import clears the character's own thread, not the import
+    if (session?.readOnly) {
+      const sessionId = getActiveSessionId(session.character);
+      persist(deleteMessages(session.character, sessionId));
+      get().updateSession(sessionId, { preview: '', updatedAt: Date.now() });
+      return;
+    }
+    set({ messages: [], partialTranscription: '' });
+    if (session) {
+      persist(deleteMessages(session.character, session.sessionId));
+      get().updateSession(session.sessionId, { preview: '', updatedAt: Date.now() });
+    }
+  },
+
+  loadHistory: async (character, viewSessionId) => {
+    const session: ActiveSession = viewSessionId
+      ? { character, sessionId: viewSessionId, readOnly: true }
+      : { character, sessionId: getActiveSessionId(character) };
+    localStorage.setItem(LAST_CHARACTER_KEY, character);
+    const previous = get().activeSession;
+    const isSameSession =
+      previous?.character === session.character &&
+      previous.sessionId === session.sessionId &&
+      !!previous.readOnly === !!session.readOnly;
+    // Point new messages at the new thread right away so nothing is written under the old one
+    set(isSameSession ? {} : { activeSession: session, messages: [], partialTranscription: '' });
+
+    let stored: ChatMessage[] = [];
+    try {
+      stored = await loadMessages(session.character, session.sessionId);
+    } catch (error) {
+      console.error('Failed to load chat history:', error);
+    }
+
+    // Threads created before session metadata existed (or brand-new ones) get a record here
+    const sessions = await get().loadSessions();
+    let record = sessions.find((s) => s.id === session.sessionId);
+    // Imports used to become the active thread; give the character a writable one again
+    if (record?.readOnly && !session.readOnly) {
+      setActiveSessionId(character, null);
+      if (get().activeSession?.sessionId === session.sessionId) {
+        await get().loadHistory(character);
+      }
+      return;
+    }
+    if (!record) {
+      const { currentCharacter, characters } = get();
+      const character =
+        currentCharacter?.name === session.character
+          ? currentCharacter
+          : characters.find((c) => c.name === session.character);
+      const last = stored[stored.length - 1];
+      record = {
+        id: session.sessionId,
+        character: session.character,
+        title: '',
+        preview: last ? last.content.slice(0, PREVIEW_LENGTH) : '',
+        live2dModelSet: character?.live2d_model_set,
+        archived: false,
+        createdAt: stored[0]?.timestamp.getTime() ?? Date.now(),
+        updatedAt: last?.timestamp.getTime() ?? Date.now(),
+      };
+      const created = record;
+      set((state) => ({ sessions: [created, ...state.sessions] }));
+      persist(saveSession(created));
+    }
+
+    // Restore the session's model set on the live character
+    const { currentCharacter } = get();
+    if (
+      record.live2dModelSet &&
+      currentCharacter?.name === session.character &&
+      currentCharacter.live2d_model_set !== record.live2dModelSet
+    ) {
+      set({ currentCharacter: { ...currentCharacter, live2d_model_set: record.live2dModelSet } });
+    }
+
+    set((state) => {
+      // Another thread was selected while loading; drop this result
+      if (state.activeSession?.sessionId !== session.sessionId) return {};
+      // In-memory copies are newer than stored ones; keep messages that arrived while the read was in flight
+      const liveById = new Map(state.messages.map((m) => [m.id, m]));
+      const merged = stored.map((m) => {
+        const live = liveById.get(m.id);
+        if (live) return live;
+        // The outbox is in-memory only, so a stored 'pending' message was lost with the page
+        return m.deliveryStatus === 'pending' ? { ...m, deliveryStatus: 'failed' as const } : m;
+      });
+      const storedIds = new Set(stored.map((m) => m.id));
+      const live = state.messages.filter((m) => !storedIds.has(m.id));
+      return { messages: [...merged, ...live] };
+    });
+  },
   
+  loadSessions: async () => {
+    try {
+      const stored = await loadStoredSessions();
+      // Session writes are fire-and-forget: an in-memory record at least as new as the stored one
+      // may still be on its way, and one missing from the store was created but not yet written
+      set((state) => {
+        const live = new Map(state.sessions.map((s) => [s.id, s]));
+        const merged = stored.map((s) => {
+          const current = live.get(s.id);
+          live.delete(s.id);
+          return current && current.updatedAt >= s.updatedAt ? current : s;
+        });
+        return { sessions: [...merged, ...live.values()].sort((a, b) => b.updatedAt - a.updatedAt) };
+      });
+      return get().sessions;
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      return get().sessions;
+    }
+  },
+
+  createSession: async (character) => {
+    const { currentCharacter, characters } = get();
+    const source =
+      currentCharacter?.name === character
+        ? currentCharacter
+        : characters.find((c) => c.name === character);
+    const now = Date.now();
+    const session: ChatSession = {
+      id: crypto.randomUUID(),
+      character,
+      title: '',
+      preview: '',
+      live2dModelSet: source?.live2d_model_set,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    set((state) => ({ sessions: [session, ...state.sessions] }));
+    await saveSession(session).catch((error) =>
+      console.error('Failed to persist chat history:', error)
+    );
+    setActiveSessionId(character, session.id);
+    await get().loadHistory(character);
+    return session;
+  },
+
+  selectSession: async (sessionId) => {
+    const session = get().sessions.find((s) => s.id === sessionId);
+    if (!session) return null;
+    if (session.readOnly) {
+      await get().loadHistory(session.character, session.id);
+      return session;
+    }
+    setActiveSessionId(session.character, session.id);
+    await get().loadHistory(session.character);
+    return session;
+  },
+
+  updateSession: (sessionId, patch) => {
+    const session = get().sessions.find((s) => s.id === sessionId);
+    if (!session) return;
+    const updated = { ...session, ...patch };
+    set((state) => ({
+      sessions: state.sessions
+        .map((s) => (s.id === sessionId ? updated : s))
+        .sort((a, b) => b.updatedAt - a.updatedAt),
+    }));
+    persist(saveSession(updated));
+  },
+
+  deleteSession: async (sessionId) => {
+    const session = get().sessions.find((s) => s.id === sessionId);
+    if (!session) return;
+    set((state) => ({ sessions: state.sessions.filter((s) => s.id !== sessionId) }));
+    await deleteStoredSession(session).catch((error) =>
+      console.error('Failed to persist chat history:', error)
+    );
+    if (readActiveSessions()[session.character] === sessionId) {
+      setActiveSessionId(session.character, null);
+    }
+    // Deleting the visible thread falls back to a fresh one for the same character
+    if (get().activeSession?.sessionId === sessionId) {
+      await get().loadHistory(session.character);
+    }
+  },
+  
+  setSessionDrawerOpen: (open) => set({ isSessionDrawerOpen: open }),
+  
+  importTranscript: async (file) => {
+    // Replay works only where the turn's audio is stored, i.e. in the browser that exported it
+    const audioTurns = new Set<string>();
+    for (const turnId of new Set(file.messages.filter((m) => m.hasAudio && m.turnId).map((m) => m.turnId!))) {
+      if (await hasTurnAudio(turnId).catch(() => false)) audioTurns.add(turnId);
+    }
+    const messages: ChatMessage[] = file.messages.map((m) => ({
+      ...m,
+      // Fresh ids so importing the same file twice never overwrites the first copy
+      id: crypto.randomUUID(),
+      timestamp: new Date(m.timestamp),
+      isPartial: false,
+      hasAudio: m.turnId ? audioTurns.has(m.turnId) || undefined : undefined,
+    }));
+    const last = messages[messages.length - 1];
+    const session: ChatSession = {
+      id: crypto.randomUUID(),
+      character: file.session.character,
+      title: file.session.title || `导入: ${file.session.characterDisplayName}`,
+      preview: last ? last.content.slice(0, PREVIEW_LENGTH) : '',
+      live2dModelSet: file.session.live2dModelSet,
+      archived: false,
+      readOnly: true,
+      createdAt: Date.parse(file.session.createdAt),
+      updatedAt: Date.now(),
+    };
+    await saveMessages(session.character, session.id, messages);
+    await saveSession(session);
+    set((state) => ({ sessions: [session, ...state.sessions] }));
+    await get().selectSession(session.id);
+    return session;
+  },
+
   reset: () => set((state) => {
     state.volumeLevelRef.current = 0;
+    state.speechProgressRef.current = null;
     return { ...initialState };
   }),
 }));
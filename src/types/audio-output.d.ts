@@ -0,0 +1,9 @@
+// Audio output device selection
+//
+// AudioContext.setSinkId (Chrome 110+) is missing from TypeScript's lib.dom. Declared optional
+// so callers feature-detect it; HTMLMediaElement.setSinkId is already in lib.dom.
+
+interface AudioContext {
+  readonly sinkId?: string | { type: 'none' };
+  setSinkId?(sinkId: string): Promise<void>;
+}
@@ -0,0 +1,134 @@
+// WebCodecs audio declarations
+//
+// TypeScript's lib.dom ships the video half of WebCodecs only; these cover the audio members
+// the app uses. Check for runtime support (`typeof AudioEncoder !== 'undefined'`) before use.
+
+declare global {
+  type AudioSampleFormat =
+    | 'u8'
+    | 's16'
+    | 's32'
+    | 'f32'
+    | 'u8-planar'
+    | 's16-planar'
+    | 's32-planar'
+    | 'f32-planar';
+
+  interface AudioDataInit {
+    format: AudioSampleFormat;
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    /** Microseconds */
+    timestamp: number;
+    data: BufferSource;
+  }
+
+  interface AudioDataCopyToOptions {
+    planeIndex: number;
+    frameOffset?: number;
+    frameCount?: number;
+    format?: AudioSampleFormat;
+  }
+
+  interface AudioData {
+    readonly format: AudioSampleFormat | null;
+    readonly sampleRate: number;
+    readonly numberOfFrames: number;
+    readonly numberOfChannels: number;
+    readonly duration: number;
+    readonly timestamp: number;
+    allocationSize(options: AudioDataCopyToOptions): number;
+    copyTo(destination: BufferSource, options: AudioDataCopyToOptions): void;
+    close(): void;
+  }
+
+  var AudioData: {
+    prototype: AudioData;
+    new (init: AudioDataInit): AudioData;
+  };
+
+  interface EncodedAudioChunkInit {
+    type: 'key' | 'delta';
+    /** Microseconds */
+    timestamp: number;
+    duration?: number;
+    data: BufferSource;
+  }
+
+  interface EncodedAudioChunk {
+    readonly type: 'key' | 'delta';
+    readonly timestamp: number;
+    readonly duration: number | null;
+    readonly byteLength: number;
+    copyTo(destination: BufferSource): void;
+  }
+
+  var EncodedAudioChunk: {
+    prototype: EncodedAudioChunk;
+    new (init: EncodedAudioChunkInit): EncodedAudioChunk;
+  };
+
+  interface AudioEncoderConfig {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    bitrate?: number;
+    opus?: {
+      /** Microseconds */
+      frameDuration?: number;
+      complexity?: number;
+      useinbandfec?: boolean;
+      usedtx?: boolean;
+    };
+  }
+
+  interface AudioEncoderInit {
+    output: (chunk: EncodedAudioChunk) => void;
+    error: (error: DOMException) => void;
+  }
+
+  interface AudioEncoder {
+    readonly state: CodecState;
+    readonly encodeQueueSize: number;
+    configure(config: AudioEncoderConfig): void;
+    encode(data: AudioData): void;
+    flush(): Promise<void>;
+    close(): void;
+  }
+
+  var AudioEncoder: {
+    prototype: AudioEncoder;
+    new (init: AudioEncoderInit): AudioEncoder;
+    isConfigSupported(config: AudioEncoderConfig): Promise<{ supported?: boolean; config?: AudioEncoderConfig }>;
+  };
+
+  interface AudioDecoderConfig {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    description?: BufferSource;
+  }
+
+  interface AudioDecoderInit {
+    output: (data: AudioData) => void;
+    error: (error: DOMException) => void;
+  }
+
+  interface AudioDecoder {
+    readonly state: CodecState;
+    readonly decodeQueueSize: number;
+    configure(config: AudioDecoderConfig): void;
+    decode(chunk: EncodedAudioChunk): void;
+    flush(): Promise<void>;
+    close(): void;
+  }
+
+  var AudioDecoder: {
+    prototype: AudioDecoder;
+    new (init: AudioDecoderInit): AudioDecoder;
+    isConfigSupported(config: AudioDecoderConfig): Promise<{ supported?: boolean; config?: AudioDecoderConfig }>;
+  };
+}
+
+export {};
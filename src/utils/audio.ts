@@ -59,28 +59,78 @@ export function resampleAudio(
   return result;
 }
 
+/**
+ * Streaming linear resampler: keeps its read position and last sample across blocks, so
+ * consecutive blocks join without the edge glitches of resampling each block on its own.
+ * Mirrors the resampler in public/worklets/capture-processor.js.
+ */
+export class StreamResampler {
+  private readonly ratio: number;
+  private position = 0;
+  private lastSample = 0;
+
+  constructor(fromSampleRate: number, toSampleRate: number) {
+    this.ratio = fromSampleRate / toSampleRate;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const output = new Float32Array(Math.ceil((input.length - this.position) / this.ratio) + 1);
+    let length = 0;
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const before = index === 0 ? this.lastSample : input[index - 1];
+      output[length++] = before + (input[index] - before) * fraction;
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    if (input.length > 0) this.lastSample = input[input.length - 1];
+    return output.subarray(0, length);
+  }
+}
+
 /**
  * Encode Int16Array to Base64 string
  */
 export function int16ToBase64(int16Array: Int16Array): string {
-  const uint8Array = new Uint8Array(int16Array.buffer);
+  return bytesToBase64(int16ToBytes(int16Array));
+}
+
+/**
+ * View Int16 PCM as its little-endian bytes (no copy)
+ */
+export function int16ToBytes(int16Array: Int16Array): Uint8Array {
+  return new Uint8Array(int16Array.buffer, int16Array.byteOffset, int16Array.byteLength);
+}
+
+/**
+ * Encode bytes to Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
   let binary = '';
-  for (let i = 0; i < uint8Array.length; i++) {
-    binary += String.fromCharCode(uint8Array[i]);
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
   }
   return btoa(binary);
 }
 
 /**
- * Decode Base64 string to Int16Array
+ * Decode Base64 string to bytes
  */
-export function base64ToInt16(base64: string): Int16Array {
+export function base64ToBytes(base64: string): Uint8Array {
   const binary = atob(base64);
   const bytes = new Uint8Array(binary.length);
   for (let i = 0; i < binary.length; i++) {
     bytes[i] = binary.charCodeAt(i);
   }
-  return new Int16Array(bytes.buffer);
+  return bytes;
+}
+
+/**
+ * Decode Base64 string to Int16Array
+ */
+export function base64ToInt16(base64: string): Int16Array {
+  return new Int16Array(base64ToBytes(base64).buffer);
 }
 
 /**
@@ -97,6 +147,54 @@ export function createAudioBuffer(
   return audioBuffer;
 }
 
+/**
+ * Concatenate Int16 PCM chunks into one buffer
+ */
+export function concatInt16(chunks: Int16Array[]): Int16Array {
+  const totalLength = chunks.reduce((sum, arr) => sum + arr.length, 0);
+  const merged = new Int16Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+}
+
+/**
+ * Wrap mono Int16 PCM in a RIFF/WAVE container (44-byte canonical header)
+ */
+export function encodeWav(int16Data: Int16Array, sampleRate: number): Blob {
+  const bytesPerSample = AUDIO_CONFIG.bitsPerSample / 8;
+  const channelCount = 1;
+  const dataSize = int16Data.length * bytesPerSample;
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * bytesPerSample, true); // byte rate
+  view.setUint16(32, channelCount * bytesPerSample, true); // block align
+  view.setUint16(34, AUDIO_CONFIG.bitsPerSample, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // WAV is little-endian; Int16Array uses platform order, which is little-endian on all supported browsers
+  const body = new Uint8Array(int16Data.buffer, int16Data.byteOffset, dataSize);
+  return new Blob([header, body], { type: 'audio/wav' });
+}
+
 /**
  * Calculate RMS (Root Mean Square) for volume level
  */
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  normalizeAudioFormat,
+  parseMpegFrameHeader,
+  splitMpegFrames,
+  TtsAudioDecoder,
+  UnsupportedAudioFormatError,
+} from '@/utils/audioDecoder';
+
+/** PCM streams never touch the AudioContext. */
+function pcmDecoder(): TtsAudioDecoder {
+  return new TtsAudioDecoder(() => {
+    throw new Error('no AudioContext in tests');
+  });
+}
+
+function int16Bytes(values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 2);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setInt16(i * 2, value, true));
+  return bytes;
+}
+
+/** MPEG frame of the right length for its header, filled with `fill`. */
+function mpegFrame(header: number[], fill = 0): Uint8Array {
+  const frame = new Uint8Array(parseMpegFrameHeader(new Uint8Array(header), 0)!.frameBytes).fill(fill);
+  frame.set(header);
+  return frame;
+}
+
+const concat = (...parts: Uint8Array[]) => Uint8Array.from(parts.flatMap((part) => Array.from(part)));
+
+describe('TtsAudioDecoder', () => {
+  it('carries a split 16-bit sample over to the next chunk', async () => {
+    const decoder = pcmDecoder();
+    const bytes = int16Bytes([0x4000, -0x8000, 0x2000]);
+    const first = await decoder.decode({ format: 'pcm_s16le', sampleRate: 24000, data: bytes.subarray(0, 3) });
+    const second = await decoder.decode({ format: 'pcm_s16le', sampleRate: 24000, data: bytes.subarray(3) });
+    expect(Array.from(first[0].samples)).toEqual([0.5]);
+    expect(Array.from(second[0].samples)).toEqual([-1, 0.25]);
+    expect(second[0].sampleRate).toBe(24000);
+  });
+
+  it('drops the carried bytes when the stream ends', async () => {
+    const decoder = pcmDecoder();
+    await decoder.decode({ format: 'pcm', sampleRate: 16000, data: new Uint8Array([1]) });
+    expect(await decoder.end()).toEqual([]);
+    const [next] = await decoder.decode({ format: 'pcm', sampleRate: 16000, data: int16Bytes([0x4000]) });
+    expect(Array.from(next.samples)).toEqual([0.5]);
+  });
+
+  it('keeps whole float samples together', async () => {
+    const decoder = pcmDecoder();
+    const bytes = new Uint8Array(new Float32Array([0.25, -0.75]).buffer);
+    const first = await decoder.decode({ format: 'pcm_f32le', sampleRate: 24000, data: bytes.subarray(0, 6) });
+    const second = await decoder.decode({ format: 'pcm_f32le', sampleRate: 24000, data: bytes.subarray(6) });
+    expect(Array.from(first[0].samples)).toEqual([0.25]);
+    expect(Array.from(second[0].samples)).toEqual([-0.75]);
+  });
+
+  it('mixes a stereo WAV stream down, with the header only in the first chunk', async () => {
+    const header = new Uint8Array(44);
+    const view = new DataView(header.buffer);
+    header.set(new TextEncoder().encode('RIFF'), 0);
+    header.set(new TextEncoder().encode('WAVEfmt '), 8);
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, 2, true);
+    view.setUint32(24, 22050, true);
+    view.setUint16(34, 16, true);
+    header.set(new TextEncoder().encode('data'), 36);
+    const frames = int16Bytes([0x4000, 0x2000, -0x4000, -0x4000]);
+
+    const decoder = pcmDecoder();
+    const first = await decoder.decode({ format: 'wav', sampleRate: 0, data: concat(header, frames.subarray(0, 6)) });
+    const second = await decoder.decode({ format: 'wav', sampleRate: 0, data: frames.subarray(6) });
+    expect(first[0]).toEqual({ samples: new Float32Array([0.375]), sampleRate: 22050 });
+    expect(Array.from(second[0].samples)).toEqual([-0.5]);
+  });
+
+  it('rejects formats it does not know', async () => {
+    const error = await pcmDecoder()
+      .decode({ format: 'flac', sampleRate: 44100, data: new Uint8Array(4) })
+      .catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(UnsupportedAudioFormatError);
+    expect((error as UnsupportedAudioFormatError).format).toBe('flac');
+  });
+});
+
+describe('normalizeAudioFormat', () => {
+  it('accepts known names in any case and the legacy pcm alias', () => {
+    expect(normalizeAudioFormat(' MP3 ')).toBe('mp3');
+    expect(normalizeAudioFormat('pcm')).toBe('pcm_s16le');
+    expect(normalizeAudioFormat('aac')).toBeNull();
+  });
+});
+
+describe('MPEG frames', () => {
+  it('computes frame length, rate and channels from the header', () => {
+    expect(parseMpegFrameHeader(new Uint8Array([0xff, 0xfb, 0x90, 0x00]), 0)).toEqual({
+      frameBytes: 417,
+      sampleRate: 44100,
+      channels: 2,
+      samplesPerFrame: 1152,
+    });
+    // Padding bit, mono
+    expect(parseMpegFrameHeader(new Uint8Array([0xff, 0xfb, 0x92, 0xc0]), 0)).toMatchObject({ frameBytes: 418, channels: 1 });
+    // MPEG-2, 64 kbit/s at 24 kHz
+    expect(parseMpegFrameHeader(new Uint8Array([0xff, 0xf3, 0x84, 0xc0]), 0)).toEqual({
+      frameBytes: 192,
+      sampleRate: 24000,
+      channels: 1,
+      samplesPerFrame: 576,
+    });
+  });
+
+  it('rejects free-format, invalid and non-Layer III headers', () => {
+    expect(parseMpegFrameHeader(new Uint8Array([0xff, 0xfb, 0x00, 0x00]), 0)).toBeNull();
+    expect(parseMpegFrameHeader(new Uint8Array([0xff, 0xfb, 0xf0, 0x00]), 0)).toBeNull();
+    expect(parseMpegFrameHeader(new Uint8Array([0xff, 0xfd, 0x90, 0x00]), 0)).toBeNull();
+    expect(parseMpegFrameHeader(new Uint8Array([0xff, 0xfb]), 0)).toBeNull();
+  });
+
+  it('skips an ID3v2 tag and stray bytes, keeping back a partial frame', () => {
+    const tag = concat(new TextEncoder().encode('ID3'), new Uint8Array([4, 0, 0, 0, 0, 0, 1, 0]), new Uint8Array(128));
+    const a = mpegFrame([0xff, 0xfb, 0x90, 0x00], 1);
+    const b = mpegFrame([0xff, 0xfb, 0x92, 0x00], 2);
+    const { frames, header, rest } = splitMpegFrames(concat(tag, new Uint8Array([0, 0xff]), a, b.subarray(0, 100)));
+    expect(frames).toEqual([a]);
+    expect(header).toMatchObject({ sampleRate: 44100 });
+    expect(rest).toEqual(b.subarray(0, 100));
+
+    const next = splitMpegFrames(concat(rest, b.subarray(100)));
+    expect(next.frames).toEqual([b]);
+    expect(next.rest).toHaveLength(0);
+  });
+
+  it('waits for the rest of a tag split across chunks', () => {
+    const { frames, header, rest } = splitMpegFrames(new TextEncoder().encode('ID3\u0004\u0000\u0000\u0000\u0000\u0001\u0000'));
+    expect(frames).toEqual([]);
+    expect(header).toBeNull();
+    expect(rest).toHaveLength(10);
+  });
+});
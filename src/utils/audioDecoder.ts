@@ -0,0 +1,450 @@
+// TTS audio decoding
+//
+// Turns `audio_chunk` payloads of any supported `audio_format` into mono Float32 samples for the
+// player. State is kept per stream (one stream per sentence, ended by end()):
+//
+//   pcm_s16le, pcm_f32le  decoded chunk by chunk
+//   wav                   header in the first chunk; later chunks may be bare sample data
+//   mp3                   split at frame headers (a partial frame waits for the next chunk);
+//                         streamed through WebCodecs where it decodes mp3, otherwise each run of
+//                         whole frames is decoded on its own (may click at chunk joins)
+//   opus                  length-prefixed raw packets (as uploaded), streamed through WebCodecs
+//   ogg                   container pages cannot be decoded piecemeal; buffered until end()
+//
+// WebCodecs streams are flushed only at end(); until then output is returned as it comes.
+
+import { unpackOpusPackets } from '@/utils/opusEncoder';
+
+export interface EncodedAudio {
+  format: string;
+  sampleRate: number;
+  data: Uint8Array;
+}
+
+export interface DecodedAudio {
+  /** Mono samples, -1..1 */
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export const SUPPORTED_AUDIO_FORMATS = ['pcm_s16le', 'pcm_f32le', 'wav', 'mp3', 'opus', 'ogg'] as const;
+export type SupportedAudioFormat = (typeof SUPPORTED_AUDIO_FORMATS)[number];
+
+/** Older servers send plain `pcm` (16-bit). */
+const formatAliases: Record<string, SupportedAudioFormat> = {
+  pcm: 'pcm_s16le',
+};
+
+export function normalizeAudioFormat(format: string): SupportedAudioFormat | null {
+  const name = format.trim().toLowerCase();
+  if ((SUPPORTED_AUDIO_FORMATS as readonly string[]).includes(name)) {
+    return name as SupportedAudioFormat;
+  }
+  return formatAliases[name] ?? null;
+}
+
+/** Thrown for a format the player does not know, or one this browser cannot decode. */
+export class UnsupportedAudioFormatError extends Error {
+  constructor(
+    readonly format: string,
+    reason?: string
+  ) {
+    super(reason ? `Cannot play ${format} audio: ${reason}` : `Unsupported audio format: ${format}`);
+    this.name = 'UnsupportedAudioFormatError';
+  }
+}
+
+interface WavFormat {
+  /** 1 = integer PCM, 3 = IEEE float */
+  encoding: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+/** Parse a RIFF/WAVE header; returns the format and where the sample data starts. */
+function parseWavHeader(bytes: Uint8Array): { format: WavFormat; dataOffset: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new UnsupportedAudioFormatError('wav', 'missing RIFF/WAVE header');
+  }
+  let format: WavFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      let encoding = view.getUint16(offset + 8, true);
+      // WAVE_FORMAT_EXTENSIBLE: the real encoding is the first field of the sub-format GUID
+      if (encoding === 0xfffe && size >= 26) encoding = view.getUint16(offset + 32, true);
+      format = {
+        encoding,
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (id === 'data') {
+      if (!format) break;
+      return { format, dataOffset: offset + 8 };
+    }
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2);
+  }
+  throw new UnsupportedAudioFormatError('wav', 'no fmt/data chunk in the first chunk');
+}
+
+/** Interleaved WAV sample bytes → mono Float32 (channels averaged). */
+function wavSamples(bytes: Uint8Array, format: WavFormat): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = format.bitsPerSample / 8;
+  const frameBytes = bytesPerSample * format.channels;
+  const frames = Math.floor(bytes.byteLength / frameBytes);
+  const read = (offset: number): number => {
+    if (format.encoding === 3 && format.bitsPerSample === 32) return view.getFloat32(offset, true);
+    if (format.encoding === 1) {
+      switch (format.bitsPerSample) {
+        case 8:
+          return (view.getUint8(offset) - 128) / 128;
+        case 16:
+          return view.getInt16(offset, true) / 0x8000;
+        case 24:
+          return ((view.getUint8(offset + 2) << 24) | (view.getUint16(offset, true) << 8)) / 0x80000000;
+        case 32:
+          return view.getInt32(offset, true) / 0x80000000;
+      }
+    }
+    throw new UnsupportedAudioFormatError(
+      'wav',
+      `${format.bitsPerSample}-bit ${format.encoding === 3 ? 'float' : `encoding ${format.encoding}`}`
+    );
+  };
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < format.channels; channel++) {
+      sum += read(frame * frameBytes + channel * bytesPerSample);
+    }
+    samples[frame] = sum / format.channels;
+  }
+  return samples;
+}
+
+/** Mono mixdown of a decoded AudioBuffer. */
+function bufferSamples(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0).slice();
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+  }
+  return samples;
+}
+
+interface MpegFrameHeader {
+  frameBytes: number;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+}
+
+// Layer III bitrates in kbit/s by bitrate index (0 = free format, 15 = invalid)
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+// Sample rates by version bits (3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5) and rate index
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+/** Header of an MPEG audio Layer III frame starting at `offset`, or null if there is none. */
+export function parseMpegFrameHeader(bytes: Uint8Array, offset: number): MpegFrameHeader | null {
+  if (offset + 4 > bytes.byteLength) return null;
+  const [b0, b1, b2, b3] = bytes.subarray(offset, offset + 4);
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+  const version = (b1 >> 3) & 3;
+  const layer = (b1 >> 1) & 3;
+  const bitrateIndex = b2 >> 4;
+  const rateIndex = (b2 >> 2) & 3;
+  // Free-format streams carry no frame length; they are not worth supporting here
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+  const mpeg1 = version === 3;
+  const bitrate = (mpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version][rateIndex];
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+  const padding = (b2 >> 1) & 1;
+  return {
+    frameBytes: Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding,
+    sampleRate,
+    channels: b3 >> 6 === 3 ? 1 : 2,
+    samplesPerFrame,
+  };
+}
+
+/**
+ * Split MPEG audio into whole frames. An ID3v2 tag is skipped and other bytes before a frame
+ * header are dropped; an incomplete trailing frame (or tag) is returned as `rest`.
+ */
+export function splitMpegFrames(bytes: Uint8Array): {
+  frames: Uint8Array[];
+  header: MpegFrameHeader | null;
+  rest: Uint8Array;
+} {
+  const frames: Uint8Array[] = [];
+  let header: MpegFrameHeader | null = null;
+  let offset = 0;
+  while (offset < bytes.byteLength) {
+    if (isId3(bytes, offset)) {
+      if (offset + 10 > bytes.byteLength) break;
+      // Syncsafe size (7 bits per byte) excluding the 10-byte header and optional footer
+      const size = bytes.subarray(offset + 6, offset + 10).reduce((sum, byte) => (sum << 7) | (byte & 0x7f), 0);
+      const tagBytes = 10 + size + (bytes[offset + 5] & 0x10 ? 10 : 0);
+      if (offset + tagBytes > bytes.byteLength) break;
+      offset += tagBytes;
+      continue;
+    }
+    const frame = parseMpegFrameHeader(bytes, offset);
+    if (!frame) {
+      // Fewer than 4 bytes left may still be the start of a header
+      if (offset + 4 > bytes.byteLength) break;
+      offset++;
+      continue;
+    }
+    if (offset + frame.frameBytes > bytes.byteLength) break;
+    frames.push(bytes.subarray(offset, offset + frame.frameBytes));
+    header ??= frame;
+    offset += frame.frameBytes;
+  }
+  return { frames, header, rest: bytes.slice(offset) };
+}
+
+/** Mono mixdown of a WebCodecs AudioData frame. */
+function audioDataSamples(data: AudioData): Float32Array {
+  const samples = new Float32Array(data.numberOfFrames);
+  const plane = new Float32Array(data.numberOfFrames);
+  for (let channel = 0; channel < data.numberOfChannels; channel++) {
+    data.copyTo(plane, { planeIndex: channel, format: 'f32-planar' });
+    for (let i = 0; i < plane.length; i++) samples[i] += plane[i] / data.numberOfChannels;
+  }
+  return samples;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const merged = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return merged;
+}
+
+/**
+ * Streaming WebCodecs decoder (Opus packets, mp3 frames). Output arrives through the decoder's
+ * callback and is collected until taken; the decoder is only flushed when the stream ends.
+ */
+class StreamingAudioDecoder {
+  private readonly decoder: AudioDecoder;
+  private decoded: DecodedAudio[] = [];
+  private failure: Error | null = null;
+  private timestampUs = 0;
+
+  /** `unitDurationUs`: duration of one encoded unit, used to advance the chunk timestamps. */
+  constructor(
+    config: AudioDecoderConfig,
+    private readonly unitDurationUs: number
+  ) {
+    this.decoder = new AudioDecoder({
+      output: (data) => {
+        this.decoded.push({ samples: audioDataSamples(data), sampleRate: data.sampleRate });
+        data.close();
+      },
+      error: (error) => {
+        this.failure = error;
+      },
+    });
+    this.decoder.configure(config);
+  }
+
+  /** Queue encoded units; returns what the decoder has output so far (the rest follows later or on flush()). */
+  decode(units: Uint8Array[]): DecodedAudio[] {
+    if (this.failure) throw this.failure;
+    for (const data of units) {
+      // Only the first chunk after configure() has to be a key chunk
+      const type = this.timestampUs === 0 ? 'key' : 'delta';
+      this.decoder.decode(new EncodedAudioChunk({ type, timestamp: this.timestampUs, data }));
+      this.timestampUs += this.unitDurationUs;
+    }
+    return this.take();
+  }
+
+  /** End of stream: wait for the remaining output, then close. */
+  async flush(): Promise<DecodedAudio[]> {
+    try {
+      if (this.decoder.state === 'configured') await this.decoder.flush();
+      return this.take();
+    } finally {
+      this.close();
+    }
+  }
+
+  close(): void {
+    if (this.decoder.state !== 'closed') this.decoder.close();
+  }
+
+  private take(): DecodedAudio[] {
+    if (this.failure) throw this.failure;
+    const decoded = this.decoded;
+    this.decoded = [];
+    return decoded;
+  }
+}
+
+/**
+ * Decoder for the TTS audio of one connection. Calls must be serialized by the caller (await
+ * each before the next) so output stays in arrival order.
+ */
+export class TtsAudioDecoder {
+  /** Trailing bytes of an incomplete sample, prepended to the next chunk of the stream. */
+  private carry = new Uint8Array(0);
+  private wav: WavFormat | null = null;
+  private ogg: Uint8Array[] = [];
+  private opus: StreamingAudioDecoder | null = null;
+  private mp3: StreamingAudioDecoder | null = null;
+  /** Whether WebCodecs decodes mp3 at a given rate/channel count; a browser capability, kept across streams. */
+  private readonly mp3Support = new Map<string, Promise<boolean>>();
+
+  constructor(private readonly getAudioContext: () => BaseAudioContext) {}
+
+  async decode(audio: EncodedAudio): Promise<DecodedAudio[]> {
+    const format = normalizeAudioFormat(audio.format);
+    if (!format) throw new UnsupportedAudioFormatError(audio.format);
+
+    switch (format) {
+      case 'pcm_s16le': {
+        const bytes = this.takeWhole(audio.data, 2);
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const samples = new Float32Array(bytes.byteLength / 2);
+        for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true) / 0x8000;
+        return [{ samples, sampleRate: audio.sampleRate }];
+      }
+      case 'pcm_f32le': {
+        const bytes = this.takeWhole(audio.data, 4).slice();
+        return [{ samples: new Float32Array(bytes.buffer), sampleRate: audio.sampleRate }];
+      }
+      case 'wav': {
+        let data = audio.data;
+        if (!this.wav || isRiff(data)) {
+          const { format: wavFormat, dataOffset } = parseWavHeader(data);
+          this.wav = wavFormat;
+          this.carry = new Uint8Array(0);
+          data = data.subarray(dataOffset);
+        }
+        const frameBytes = (this.wav.bitsPerSample / 8) * this.wav.channels;
+        return [{ samples: wavSamples(this.takeWhole(data, frameBytes), this.wav), sampleRate: this.wav.sampleRate }];
+      }
+      case 'mp3': {
+        const { frames, header } = this.takeMpegFrames(audio.data);
+        if (!header) return [];
+        if (this.mp3 || (await this.streamsMp3(header))) {
+          this.mp3 ??= new StreamingAudioDecoder(
+            { codec: 'mp3', sampleRate: header.sampleRate, numberOfChannels: header.channels },
+            (header.samplesPerFrame / header.sampleRate) * 1e6
+          );
+          return this.mp3.decode(frames);
+        }
+        return [await this.decodeFile(concatBytes(frames), 'mp3')];
+      }
+      case 'opus': {
+        if (typeof AudioDecoder === 'undefined') {
+          throw new UnsupportedAudioFormatError('opus', 'WebCodecs AudioDecoder is not available');
+        }
+        this.opus ??= new StreamingAudioDecoder(
+          { codec: 'opus', sampleRate: audio.sampleRate, numberOfChannels: 1 },
+          // Duration is only known after decoding; the timestamp just has to increase
+          20000
+        );
+        return this.opus.decode(unpackOpusPackets(audio.data));
+      }
+      case 'ogg':
+        this.ogg.push(audio.data);
+        return [];
+    }
+  }
+
+  /** The current stream (sentence) is complete: decode what was buffered and start afresh. */
+  async end(): Promise<DecodedAudio[]> {
+    const { ogg, opus, mp3 } = this;
+    this.opus = null;
+    this.mp3 = null;
+    this.reset();
+    const decoded: DecodedAudio[] = [];
+    for (const stream of [opus, mp3]) if (stream) decoded.push(...(await stream.flush()));
+    if (ogg.length > 0) decoded.push(await this.decodeFile(concatBytes(ogg), 'ogg'));
+    return decoded;
+  }
+
+  /** Drop all stream state (interrupt, new turn). */
+  reset(): void {
+    this.carry = new Uint8Array(0);
+    this.wav = null;
+    this.ogg = [];
+    this.opus?.close();
+    this.opus = null;
+    this.mp3?.close();
+    this.mp3 = null;
+  }
+
+  /** Prepend the carried bytes and keep back a trailing partial sample of `unit` bytes. */
+  private takeWhole(data: Uint8Array, unit: number): Uint8Array {
+    const bytes = this.carry.byteLength > 0 ? concatBytes([this.carry, data]) : data;
+    const whole = bytes.byteLength - (bytes.byteLength % unit);
+    this.carry = bytes.slice(whole);
+    return bytes.subarray(0, whole);
+  }
+
+  /** Like takeWhole for mp3: prepend the carried bytes and keep back a trailing partial frame. */
+  private takeMpegFrames(data: Uint8Array): { frames: Uint8Array[]; header: MpegFrameHeader | null } {
+    const { frames, header, rest } = splitMpegFrames(this.carry.byteLength > 0 ? concatBytes([this.carry, data]) : data);
+    this.carry = rest;
+    return { frames, header };
+  }
+
+  private streamsMp3({ sampleRate, channels }: MpegFrameHeader): Promise<boolean> {
+    if (typeof AudioDecoder === 'undefined') return Promise.resolve(false);
+    const key = `${sampleRate}/${channels}`;
+    let supported = this.mp3Support.get(key);
+    if (!supported) {
+      // isConfigSupported can also throw synchronously
+      supported = Promise.resolve()
+        .then(() => AudioDecoder.isConfigSupported({ codec: 'mp3', sampleRate, numberOfChannels: channels }))
+        .then(
+          (support) => support.supported === true,
+          () => false
+        );
+      this.mp3Support.set(key, supported);
+    }
+    return supported;
+  }
+
+  /** Decode a self-contained file through the AudioContext (output is at the context's rate). */
+  private async decodeFile(data: Uint8Array, format: string): Promise<DecodedAudio> {
+    try {
+      // decodeAudioData detaches its argument, so hand it a copy
+      const buffer = await this.getAudioContext().decodeAudioData(data.slice().buffer);
+      return { samples: bufferSamples(buffer), sampleRate: buffer.sampleRate };
+    } catch (error) {
+      throw new UnsupportedAudioFormatError(format, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+function isRiff(data: Uint8Array): boolean {
+  return data.byteLength >= 4 && data[0] === 0x52 && data[1] === 0x49 && data[2] === 0x46 && data[3] === 0x46;
+}
+
+/** "ID3" – start of an ID3v2 tag. */
+function isId3(data: Uint8Array, offset: number): boolean {
+  return offset + 3 <= data.byteLength && data[offset] === 0x49 && data[offset + 1] === 0x44 && data[offset + 2] === 0x33;
+}
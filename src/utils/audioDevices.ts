@@ -0,0 +1,58 @@
+// Audio input/output devices
+//
+// An empty device id means "system default" throughout (store, constraints, setSinkId).
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+/** Microphones and speakers. Labels stay empty until the page has been granted microphone access. */
+export async function listAudioDevices(): Promise<AudioDeviceLists> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // The "default"/"communications" entries duplicate a real device; the empty id covers them
+  const real = devices.filter((d) => d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications');
+  return {
+    inputs: real.filter((d) => d.kind === 'audioinput'),
+    outputs: real.filter((d) => d.kind === 'audiooutput'),
+  };
+}
+
+/** Whether the player can route to a chosen output (AudioContext.setSinkId). */
+export function isOutputSelectionSupported(): boolean {
+  return typeof AudioContext !== 'undefined' && typeof AudioContext.prototype.setSinkId === 'function';
+}
+
+/** Route an AudioContext or media element to `deviceId`; no-op where unsupported. */
+export async function applyOutputDevice(
+  target: AudioContext | HTMLMediaElement,
+  deviceId: string
+): Promise<void> {
+  if (typeof target.setSinkId !== 'function') return;
+  try {
+    await target.setSinkId(deviceId);
+  } catch (error) {
+    // Device unplugged or not permitted: stay on the current output
+    console.warn('Failed to switch audio output device:', error);
+  }
+}
+
+/** getUserMedia with the chosen microphone, falling back to the default one if it is gone. */
+export async function getMicrophoneStream(
+  deviceId: string,
+  constraints: MediaTrackConstraints
+): Promise<MediaStream> {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...constraints, deviceId: { exact: deviceId } },
+      });
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : '';
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw error;
+      console.warn('Selected microphone unavailable, using the default:', error);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: constraints });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AudioCodec,
+  AudioStreamId,
+  BINARY_FRAME_VERSION,
+  BINARY_HEADER_BYTES,
+  codecForFormat,
+  decodeAudioFrame,
+  encodeAudioFrame,
+} from '@/utils/binaryFrame';
+
+function header(bytes: Partial<{ version: number; codec: number; sampleRate: number }>, payload = 0): ArrayBuffer {
+  const buffer = new ArrayBuffer(BINARY_HEADER_BYTES + payload);
+  const view = new DataView(buffer);
+  view.setUint8(0, bytes.version ?? BINARY_FRAME_VERSION);
+  view.setUint8(1, bytes.codec ?? AudioCodec.pcm_s16le);
+  view.setUint16(2, AudioStreamId.tts, true);
+  view.setUint32(8, bytes.sampleRate ?? 24000, true);
+  return buffer;
+}
+
+describe('binary audio frames', () => {
+  it('lays out the header little-endian', () => {
+    const frame = encodeAudioFrame(AudioStreamId.voiceCall, 0x01020304, 16000, new Uint8Array([9, 8]), AudioCodec.opus);
+    expect(Array.from(new Uint8Array(frame))).toEqual([
+      BINARY_FRAME_VERSION, AudioCodec.opus, 2, 0, 0x04, 0x03, 0x02, 0x01, 0x80, 0x3e, 0, 0, 9, 8,
+    ]);
+  });
+
+  it('round-trips every codec', () => {
+    for (const [format, codec] of Object.entries(AudioCodec)) {
+      const payload = new Uint8Array([1, 2, 3, 4]);
+      const decoded = decodeAudioFrame(encodeAudioFrame(AudioStreamId.tts, 7, 48000, payload, codec));
+      expect(decoded).toEqual({ streamId: AudioStreamId.tts, sequence: 7, sampleRate: 48000, format, payload });
+    }
+  });
+
+  it('wraps the sequence number to 32 bits', () => {
+    const decoded = decodeAudioFrame(encodeAudioFrame(AudioStreamId.audioStream, 2 ** 32 + 5, 16000, new Uint8Array(0)));
+    expect(decoded).toMatchObject({ sequence: 5 });
+  });
+
+  it('maps audio_format names to codec bytes', () => {
+    expect(codecForFormat('mp3')).toBe(AudioCodec.mp3);
+    expect(codecForFormat('flac')).toBeUndefined();
+    expect(codecForFormat('toString')).toBeUndefined();
+  });
+
+  it.each([
+    ['a truncated header', new ArrayBuffer(BINARY_HEADER_BYTES - 1), 'binary frame shorter than its 12-byte header'],
+    ['another version', header({ version: 2 }), 'unsupported binary frame version 2'],
+    ['an unknown codec', header({ codec: 99 }), 'unknown binary frame codec 99'],
+    ['a zero sample rate', header({ sampleRate: 0 }), 'binary frame sample rate is 0'],
+    ['a partial 16-bit sample', header({}, 3), 'pcm_s16le payload has an odd byte length'],
+    ['a partial float sample', header({ codec: AudioCodec.pcm_f32le }, 6), 'pcm_f32le payload length is not a multiple of 4'],
+  ])('reports %s', (_, buffer, error) => {
+    expect(decodeAudioFrame(buffer)).toBe(error);
+  });
+});
@@ -0,0 +1,113 @@
+// Binary audio frames
+//
+// When both sides agree on `connect` (binary_audio), audio chunks travel as binary WebSocket
+// messages instead of base64 inside JSON; control messages stay JSON. Layout (little-endian):
+//
+//   offset 0   u8   version (BINARY_FRAME_VERSION)
+//   offset 1   u8   codec (AudioCodec)
+//   offset 2   u16  stream id (AudioStreamId)
+//   offset 4   u32  sequence number, per stream, starting at 0
+//   offset 8   u32  sample rate (Hz)
+//   offset 12  ...  payload
+
+export const BINARY_FRAME_VERSION = 1;
+export const BINARY_HEADER_BYTES = 12;
+
+/** Which audio stream a frame belongs to. */
+export const AudioStreamId = {
+  /** Server → client: TTS reply audio (replaces `audio_chunk`). */
+  tts: 1,
+  /** Client → server: live call audio (replaces `voice_call_audio_chunk`). */
+  voiceCall: 2,
+  /** Client → server: streamed recording (replaces `audio_stream_chunk`). */
+  audioStream: 3,
+} as const;
+export type AudioStreamId = (typeof AudioStreamId)[keyof typeof AudioStreamId];
+
+export const AudioCodec = {
+  pcm_s16le: 0,
+  /** Length-prefixed Opus packets (see utils/opusEncoder.ts). */
+  opus: 1,
+  pcm_f32le: 2,
+  mp3: 3,
+  ogg: 4,
+  wav: 5,
+} as const;
+export type AudioCodec = (typeof AudioCodec)[keyof typeof AudioCodec];
+
+/** Codec byte → `audio_format` name used by the JSON messages. */
+const codecNames: Record<number, string> = Object.fromEntries(
+  Object.entries(AudioCodec).map(([name, codec]) => [codec, name])
+);
+
+/** Codec byte for an `audio_format` name; undefined when it has no binary encoding. */
+export function codecForFormat(format: string): AudioCodec | undefined {
+  return Object.prototype.hasOwnProperty.call(AudioCodec, format)
+    ? AudioCodec[format as keyof typeof AudioCodec]
+    : undefined;
+}
+
+export interface BinaryAudioFrame {
+  streamId: number;
+  sequence: number;
+  sampleRate: number;
+  /** `audio_format` name of the codec byte. */
+  format: string;
+  payload: Uint8Array;
+}
+
+export function encodeAudioFrame(
+  streamId: AudioStreamId,
+  sequence: number,
+  sampleRate: number,
+  payload: Uint8Array,
+  codec: AudioCodec = AudioCodec.pcm_s16le
+): ArrayBuffer {
+  const buffer = new ArrayBuffer(BINARY_HEADER_BYTES + payload.byteLength);
+  const view = new DataView(buffer);
+  view.setUint8(0, BINARY_FRAME_VERSION);
+  view.setUint8(1, codec);
+  view.setUint16(2, streamId, true);
+  view.setUint32(4, sequence >>> 0, true);
+  view.setUint32(8, sampleRate, true);
+  new Uint8Array(buffer, BINARY_HEADER_BYTES).set(payload);
+  return buffer;
+}
+
+/**
+ * Parse a binary frame. Returns an error string instead of throwing so the caller can report
+ * it like any other protocol violation.
+ */
+export function decodeAudioFrame(buffer: ArrayBuffer): BinaryAudioFrame | string {
+  if (buffer.byteLength < BINARY_HEADER_BYTES) {
+    return `binary frame shorter than its ${BINARY_HEADER_BYTES}-byte header`;
+  }
+  const view = new DataView(buffer);
+  const version = view.getUint8(0);
+  if (version !== BINARY_FRAME_VERSION) {
+    return `unsupported binary frame version ${version}`;
+  }
+  const codec = view.getUint8(1);
+  const format = codecNames[codec];
+  if (!format) {
+    return `unknown binary frame codec ${codec}`;
+  }
+  const sampleRate = view.getUint32(8, true);
+  if (sampleRate === 0) {
+    return 'binary frame sample rate is 0';
+  }
+  const payload = new Uint8Array(buffer, BINARY_HEADER_BYTES);
+  if (format === 'pcm_s16le' && payload.byteLength % 2 !== 0) {
+    return 'pcm_s16le payload has an odd byte length';
+  }
+  if (format === 'pcm_f32le' && payload.byteLength % 4 !== 0) {
+    return 'pcm_f32le payload length is not a multiple of 4';
+  }
+  return {
+    streamId: view.getUint16(2, true),
+    sequence: view.getUint32(4, true),
+    sampleRate,
+    format,
+    payload,
+  };
+}
@@ -0,0 +1,156 @@
+// Microphone capture node
+//
+// Turns a MediaStream source into fixed-size frames at the target rate. Prefers the AudioWorklet
+// in public/worklets (audio thread, immune to a busy main thread); falls back to the deprecated
+// ScriptProcessorNode doing the same work on the main thread where worklets are unavailable.
+
+import { StreamResampler, float32ToInt16 } from '@/utils/audio';
+
+export interface CaptureFrame {
+  /** Samples at the target rate, -1..1 (for volume and VAD). */
+  samples: Float32Array;
+  /** The same samples as 16-bit PCM (for sending). */
+  pcm: Int16Array;
+}
+
+export interface CaptureOptions {
+  targetSampleRate: number;
+  /** Samples per frame at the target rate. */
+  frameSamples: number;
+  onFrame: (frame: CaptureFrame) => void;
+}
+
+export interface CaptureNode {
+  kind: 'worklet' | 'script-processor';
+  /** Deliver the samples of the frame still being filled (a shorter last frame). */
+  flush: () => Promise<void>;
+  /** Disconnect from the graph; no frames are delivered afterwards. */
+  stop: () => void;
+}
+
+const WORKLET_URL = `${import.meta.env.BASE_URL}worklets/capture-processor.js`;
+const SCRIPT_PROCESSOR_BUFFER_SIZE = 4096;
+/** Longest wait for the worklet to hand over its partial frame (its thread may be stalled). */
+const FLUSH_TIMEOUT_MS = 200;
+
+/** Contexts the module was added to; addModule must not run twice per context. */
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function createWorkletCapture(
+  audioContext: AudioContext,
+  source: AudioNode,
+  options: CaptureOptions
+): Promise<CaptureNode> {
+  if (!loadedContexts.has(audioContext)) {
+    await audioContext.audioWorklet.addModule(WORKLET_URL);
+    loadedContexts.add(audioContext);
+  }
+  const node = new AudioWorkletNode(audioContext, 'capture-processor', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: {
+      targetSampleRate: options.targetSampleRate,
+      frameSamples: options.frameSamples,
+    },
+  });
+  let active = true;
+  let onFlushed: (() => void) | null = null;
+  node.port.onmessage = (event: MessageEvent<CaptureFrame | { flushed: true }>) => {
+    if ('flushed' in event.data) {
+      onFlushed?.();
+    } else if (active) {
+      options.onFrame(event.data);
+    }
+  };
+  source.connect(node);
+  // Connected so the graph keeps pulling the node; the processor writes no output (silence)
+  node.connect(audioContext.destination);
+
+  return {
+    kind: 'worklet',
+    flush: () =>
+      new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, FLUSH_TIMEOUT_MS);
+        onFlushed = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        node.port.postMessage('flush');
+      }),
+    stop: () => {
+      active = false;
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+    },
+  };
+}
+
+function createScriptProcessorCapture(
+  audioContext: AudioContext,
+  source: AudioNode,
+  options: CaptureOptions
+): CaptureNode {
+  const processor = audioContext.createScriptProcessor(SCRIPT_PROCESSOR_BUFFER_SIZE, 1, 1);
+  const resampler = new StreamResampler(audioContext.sampleRate, options.targetSampleRate);
+  const frame = new Float32Array(options.frameSamples);
+  let frameLength = 0;
+  let active = true;
+
+  processor.onaudioprocess = (event) => {
+    if (!active) return;
+    const resampled = resampler.process(event.inputBuffer.getChannelData(0));
+    let offset = 0;
+    while (offset < resampled.length) {
+      const take = Math.min(resampled.length - offset, frame.length - frameLength);
+      frame.set(resampled.subarray(offset, offset + take), frameLength);
+      frameLength += take;
+      offset += take;
+      if (frameLength === frame.length) {
+        const samples = frame.slice();
+        frameLength = 0;
+        options.onFrame({ samples, pcm: float32ToInt16(samples) });
+      }
+    }
+  };
+
+  source.connect(processor);
+  // ScriptProcessorNode only runs while connected to the destination (it outputs silence)
+  processor.connect(audioContext.destination);
+
+  return {
+    kind: 'script-processor',
+    flush: async () => {
+      if (!active || frameLength === 0) return;
+      const samples = frame.slice(0, frameLength);
+      frameLength = 0;
+      options.onFrame({ samples, pcm: float32ToInt16(samples) });
+    },
+    stop: () => {
+      active = false;
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+    },
+  };
+}
+
+/**
+ * Start framing `source`. Uses an AudioWorklet when the browser supports it (and the module
+ * loads), otherwise a ScriptProcessorNode.
+ */
+export async function createCaptureNode(
+  audioContext: AudioContext,
+  source: AudioNode,
+  options: CaptureOptions
+): Promise<CaptureNode> {
+  if (typeof AudioWorkletNode !== 'undefined' && audioContext.audioWorklet) {
+    try {
+      return await createWorkletCapture(audioContext, source, options);
+    } catch (error) {
+      console.warn('AudioWorklet capture unavailable, falling back to ScriptProcessorNode:', error);
+    }
+  }
+  return createScriptProcessorCapture(audioContext, source, options);
+}
@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatClient, type ChatClientOptions, type DeliveryUpdate } from '@/utils/chatClient';
+import { fakeSocketFactory } from '@/utils/fakeSocket';
+import type { BackoffPolicy, ReconnectSchedule } from '@/utils/reconnect';
+
+function last<T>(items: T[]): T | undefined {
+  return items[items.length - 1];
+}
+
+const policy: BackoffPolicy = { baseDelayMs: 1000, maxDelayMs: 8000, factor: 2, jitter: 0, maxAttempts: 2 };
+
+function setup(options: Partial<ChatClientOptions> = {}) {
+  const factory = fakeSocketFactory();
+  const client = new ChatClient({
+    url: 'ws://test/ws',
+    createSocket: factory.createSocket,
+    reconnectPolicy: policy,
+    pingIntervalMs: 5000,
+    ...options,
+  });
+  const deliveries: DeliveryUpdate[] = [];
+  client.on('delivery', (update) => deliveries.push(update));
+  return { client, factory, deliveries };
+}
+
+describe('ChatClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the handshake on open and is connected once the server accepts', () => {
+    const { client, factory } = setup();
+    client.connect('token', 'anon');
+    expect(client.status).toBe('connecting');
+
+    factory.last.open();
+    expect(factory.last.messages('connect')).toEqual([{ type: 'connect', api_token: 'token', character_name: 'anon' }]);
+
+    factory.last.receive({ type: 'connected', character: 'soyo', character_display_name: '素世', message: 'ok' });
+    expect(client.status).toBe('connected');
+    expect(client.characterName).toBe('soyo');
+  });
+
+  describe('outbox', () => {
+    it('holds conversation messages until the session is accepted, then sends them in order', () => {
+      const { client, factory, deliveries } = setup();
+      client.connect('token');
+      expect(client.send({ type: 'message', content: '一' }, { id: 'a' })).toBe(true);
+      expect(client.send({ type: 'message', content: '二' }, { id: 'b' })).toBe(true);
+      expect(client.queuedCount).toBe(2);
+
+      // An open socket is not enough: the server has not accepted the token yet
+      factory.last.open();
+      expect(factory.last.messages('message')).toEqual([]);
+
+      factory.last.receive({ type: 'connected', character: 'anon', character_display_name: '爱音', message: 'ok' });
+      expect(factory.last.messages('message').map((m) => 'content' in m && m.content)).toEqual(['一', '二']);
+      expect(deliveries).toEqual([
+        { id: 'a', state: 'queued' },
+        { id: 'b', state: 'queued' },
+        { id: 'a', state: 'sent' },
+        { id: 'b', state: 'sent' },
+      ]);
+    });
+
+    it('does not queue live audio, and drops discarded entries', () => {
+      const { client, factory } = setup();
+      client.connect('token');
+      expect(client.send({ type: 'voice_call_start' })).toBe(false);
+      client.send({ type: 'message', content: '删掉' }, { id: 'gone' });
+      client.discardQueued('gone');
+
+      factory.last.accept();
+      expect(factory.last.messages('message')).toEqual([]);
+      expect(factory.last.messages('voice_call_start')).toEqual([]);
+    });
+
+    it('fails what is queued when the connection is given up', () => {
+      const { client, factory, deliveries } = setup();
+      client.connect('token');
+      client.send({ type: 'message', content: '你好' }, { id: 'a' });
+
+      // Never accepted, so there is no session to resume
+      factory.last.drop();
+      expect(client.queuedCount).toBe(0);
+      expect(last(deliveries)).toEqual({ id: 'a', state: 'failed' });
+    });
+  });
+
+  describe('reconnect', () => {
+    it('resumes an accepted session with backoff and gives up after the last attempt', () => {
+      const { client, factory } = setup();
+      const schedules: (ReconnectSchedule | null)[] = [];
+      const failed = vi.fn();
+      client.on('reconnect', (schedule) => schedules.push(schedule));
+      client.on('reconnect_failed', failed);
+      client.connect('token');
+      factory.last.accept();
+
+      factory.last.drop();
+      expect(client.status).toBe('disconnected');
+      expect(last(schedules)).toMatchObject({ attempt: 1, delayMs: 1000 });
+
+      vi.advanceTimersByTime(999);
+      expect(factory.sockets).toHaveLength(1);
+      vi.advanceTimersByTime(1);
+      expect(factory.sockets).toHaveLength(2);
+
+      factory.last.drop();
+      expect(last(schedules)).toMatchObject({ attempt: 2, delayMs: 2000 });
+      vi.advanceTimersByTime(2000);
+      expect(factory.sockets).toHaveLength(3);
+
+      factory.last.drop();
+      expect(last(schedules)).toBeNull();
+      expect(failed).toHaveBeenCalledWith({ attempts: 2 });
+      vi.advanceTimersByTime(60000);
+      expect(factory.sockets).toHaveLength(3);
+    });
+
+    it('ends the cycle once the session is accepted again', () => {
+      const { client, factory } = setup();
+      const schedules: (ReconnectSchedule | null)[] = [];
+      client.on('reconnect', (schedule) => schedules.push(schedule));
+      client.connect('token');
+      factory.last.accept();
+
+      factory.last.drop();
+      vi.advanceTimersByTime(1000);
+      factory.last.accept();
+      expect(client.status).toBe('connected');
+      expect(last(schedules)).toBeNull();
+
+      // A later drop starts over at the first attempt
+      factory.last.drop();
+      expect(last(schedules)).toMatchObject({ attempt: 1 });
+    });
+
+    it('does not fight a server that ended the session', () => {
+      const { client, factory } = setup();
+      client.connect('token');
+      factory.last.accept();
+
+      factory.last.receive({ type: 'disconnected', reason: 'auth', message: '令牌无效' });
+      factory.last.drop();
+      vi.advanceTimersByTime(60000);
+      expect(factory.sockets).toHaveLength(1);
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('drops a socket that stopped answering pings and resumes the session', () => {
+      const { client, factory } = setup();
+      const missed: number[] = [];
+      const statuses: string[] = [];
+      client.on('heartbeat_missed', ({ missed: count }) => missed.push(count));
+      client.on('status', ({ reason }) => statuses.push(reason ?? ''));
+      client.connect('token');
+      factory.last.accept();
+      const socket = factory.last;
+      expect(socket.messages('ping')).toHaveLength(1);
+
+      vi.advanceTimersByTime(5000);
+      expect(missed).toEqual([1]);
+      expect(socket.messages('ping')).toHaveLength(2);
+
+      vi.advanceTimersByTime(5000);
+      expect(missed).toEqual([1, 2]);
+      expect(socket.readyState).toBe(3);
+      expect(last(statuses)).toBe('heartbeat_timeout');
+
+      vi.advanceTimersByTime(1000);
+      expect(factory.sockets).toHaveLength(2);
+    });
+
+    it('forgets missed pings once a pong arrives', () => {
+      const { client, factory } = setup();
+      const missed: number[] = [];
+      client.on('heartbeat_missed', ({ missed: count }) => missed.push(count));
+      client.connect('token');
+      factory.last.accept();
+
+      vi.advanceTimersByTime(5000);
+      factory.last.receive({ type: 'pong' });
+      vi.advanceTimersByTime(5000);
+      factory.last.receive({ type: 'pong' });
+      vi.advanceTimersByTime(5000);
+
+      expect(missed).toEqual([1, 0]);
+      expect(client.status).toBe('connected');
+    });
+  });
+
+  describe('resend after reconnect', () => {
+    it('sends the unanswered text message again on the new socket', () => {
+      const { client, factory } = setup();
+      const resent = vi.fn();
+      client.on('resent', resent);
+      client.connect('token');
+      factory.last.accept();
+      client.send({ type: 'message', content: '在吗' });
+
+      factory.last.drop();
+      vi.advanceTimersByTime(1000);
+      factory.last.accept();
+
+      expect(factory.last.messages('message')).toEqual([{ type: 'message', content: '在吗' }]);
+      expect(resent).toHaveBeenCalledWith({ type: 'message', content: '在吗' });
+    });
+
+    it('does not resend a message the server already picked up', () => {
+      const { client, factory } = setup();
+      client.connect('token');
+      factory.last.accept();
+      client.send({ type: 'message', content: '在吗' });
+      factory.last.receive({ type: 'llm_start' });
+
+      factory.last.drop();
+      vi.advanceTimersByTime(1000);
+      factory.last.accept();
+
+      expect(factory.last.messages('message')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,640 @@
+// Chat WebSocket Client
+//
+// Framework-independent owner of the socket lifecycle: connect handshake, ping/pong heartbeat,
+// connect timeout, backoff reconnect with session resume, and JSON/binary framing. Every frame is parsed once and fanned
+// out as typed events, so React hooks (and tests with a fake socket) only subscribe.
+
+import { TypedEmitter } from '@/utils/emitter';
+import type { AudioUploadFormat, ClientMessage, ServerMessage, TextMessage } from '@/utils/websocket';
+import {
+  ReconnectManager,
+  DEFAULT_BACKOFF_POLICY,
+  type BackoffPolicy,
+  type ReconnectSchedule,
+} from '@/utils/reconnect';
+import { validateServerMessage, binaryViolation, type ProtocolViolation } from '@/utils/messageSchema';
+import { AudioStreamId, codecForFormat, decodeAudioFrame, encodeAudioFrame } from '@/utils/binaryFrame';
+import { base64ToBytes, bytesToBase64 } from '@/utils/audio';
+import { getWsEndpoint, isBinaryAudioEnabled } from '@/config/api';
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+/** Why the status changed; the UI maps these to user-facing text. */
+export type StatusReason =
+  | 'timeout'
+  | 'socket_error'
+  | 'server_disconnect'
+  | 'heartbeat_timeout'
+  | 'closed'
+  | 'user';
+
+export interface StatusChange {
+  status: ConnectionStatus;
+  reason?: StatusReason;
+  /** Server-provided text (e.g. from a `disconnected` message). */
+  message?: string;
+}
+
+/** Subset of the browser WebSocket the client uses; tests pass a fake implementing the same members. */
+export type SocketLike = Pick<
+  WebSocket,
+  'readyState' | 'binaryType' | 'send' | 'close' | 'onopen' | 'onmessage' | 'onerror' | 'onclose'
+>;
+
+type ServerMessageEvents = { [M in ServerMessage as M['type']]: M };
+
+export type ChatClientEvents = ServerMessageEvents & {
+  /** Every parsed server message, emitted before the per-type event. */
+  message: ServerMessage;
+  /** TTS audio from either transport (`audio_chunk` JSON or a binary frame), payload decoded. */
+  audio: AudioPayload;
+  status: StatusChange;
+  /** A frame failed validation and was dropped (unknown types included). */
+  protocol_error: ProtocolViolation;
+  /** Next reconnect attempt was scheduled; null when the cycle ended (success, cancel or give up). */
+  reconnect: ReconnectSchedule | null;
+  /** All reconnect attempts failed. */
+  reconnect_failed: { attempts: number };
+  /** The unanswered text message was sent again after a reconnect. */
+  resent: TextMessage;
+  /** Outbox progress for messages sent with an id. */
+  delivery: DeliveryUpdate;
+  /** Round trip of one ping/pong. */
+  latency: LatencySample;
+  /** The user barged in; playback should stop at once (emitted even when the socket is gone). */
+  interrupt: { at: number };
+  /** Count of consecutive pings without a pong; 0 again once a pong arrives. */
+  heartbeat_missed: { missed: number; threshold: number };
+};
+
+export interface LatencySample {
+  rttMs: number;
+  /** Epoch ms when the pong arrived */
+  at: number;
+}
+
+/** One chunk of reply audio, independent of how it was framed on the wire. */
+export interface AudioPayload {
+  /** `audio_format` name, e.g. 'pcm_s16le'. */
+  format: string;
+  sampleRate: number;
+  data: Uint8Array;
+  /** Stream sequence number (binary frames only). */
+  sequence?: number;
+}
+
+/** Outgoing live audio streams. */
+export type OutgoingAudioStream = 'voice_call' | 'audio_stream';
+
+const outgoingStreamIds: Record<OutgoingAudioStream, AudioStreamId> = {
+  voice_call: AudioStreamId.voiceCall,
+  audio_stream: AudioStreamId.audioStream,
+};
+
+export type DeliveryState = 'queued' | 'sent' | 'failed';
+
+/** Delivery update for a message sent with an id (e.g. the user bubble's ChatMessage id). */
+export interface DeliveryUpdate {
+  id: string;
+  state: DeliveryState;
+}
+
+export interface SendOptions {
+  /** Correlates delivery events with the caller's record. */
+  id?: string;
+}
+
+interface OutboxEntry {
+  id?: string;
+  message: ClientMessage;
+}
+
+/**
+ * Messages that may wait in the outbox while connecting/reconnecting. Live audio (call and
+ * stream chunks, call start/stop) is pointless later, and ping/connect are the client's own.
+ */
+const QUEUEABLE_TYPES: ReadonlySet<ClientMessage['type']> = new Set([
+  'message',
+  'audio_message',
+  'switch_character',
+  'clear_history',
+]);
+
+export interface ChatClientOptions {
+  /** Endpoint, resolved on every connect so config changes apply without recreating the client. */
+  url: string | (() => string);
+  createSocket?: (url: string) => SocketLike;
+  pingIntervalMs?: number;
+  /** Consecutive unanswered pings after which the socket is treated as dead and reconnected. */
+  maxMissedPongs?: number;
+  reconnectPolicy?: BackoffPolicy;
+  connectTimeoutMs?: number;
+  /** Ask the server for binary audio frames on connect; JSON is used when it does not agree. */
+  binaryAudio?: boolean;
+  /** Upload encoding to ask for on connect; see setPreferredUploadFormat. */
+  uploadFormat?: AudioUploadFormat;
+}
+
+// WebSocket.readyState values; spelled out so the client does not need a global WebSocket (tests)
+const SOCKET_CONNECTING = 0;
+const SOCKET_OPEN = 1;
+
+const DEFAULT_PING_INTERVAL = 30000; // 30 seconds
+const DEFAULT_MAX_MISSED_PONGS = 2;
+const DEFAULT_CONNECT_TIMEOUT_MS = 15000; // 15 seconds - avoid stuck "连接中..."
+
+export class ChatClient extends TypedEmitter<ChatClientEvents> {
+  private readonly options: Required<Omit<ChatClientOptions, 'url'>> & Pick<ChatClientOptions, 'url'>;
+  private socket: SocketLike | null = null;
+  private _status: ConnectionStatus = 'disconnected';
+  private apiToken = '';
+  private _characterName = 'anon';
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  /** performance.now() of the outstanding ping; pongs carry no id, so only one ping is in flight. */
+  private pingSentAt: number | null = null;
+  private missedPongs = 0;
+  private readonly reconnector: ReconnectManager;
+  /** Set once the server accepted us; a later unexpected close starts the reconnect cycle. */
+  private shouldReconnect = false;
+  /** Last text message sent and not yet answered (no llm_start/response/error seen). */
+  private unansweredText: TextMessage | null = null;
+  /** Queued while not connected; flushed in order once the server accepts the session. */
+  private outbox: OutboxEntry[] = [];
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Binary audio frames were agreed on for the current session. */
+  private binaryNegotiated = false;
+  /** Upload encoding the server accepted for the current session. */
+  private _uploadFormat: AudioUploadFormat = 'pcm_s16le';
+  /** Next sequence number per outgoing binary stream. */
+  private readonly sendSequence = new Map<AudioStreamId, number>();
+  /** Unknown types already logged, so a chatty newer backend does not flood the console. */
+  private readonly warnedUnknownTypes = new Set<string>();
+
+  constructor(options: ChatClientOptions) {
+    super();
+    this.options = {
+      createSocket: (url) => new WebSocket(url),
+      pingIntervalMs: DEFAULT_PING_INTERVAL,
+      maxMissedPongs: DEFAULT_MAX_MISSED_PONGS,
+      reconnectPolicy: DEFAULT_BACKOFF_POLICY,
+      connectTimeoutMs: DEFAULT_CONNECT_TIMEOUT_MS,
+      binaryAudio: false,
+      uploadFormat: 'pcm_s16le',
+      ...options,
+    };
+    this.reconnector = new ReconnectManager(
+      () => this.openSocket(),
+      this.options.reconnectPolicy
+    );
+  }
+
+  get status(): ConnectionStatus {
+    return this._status;
+  }
+
+  /** Character the session is (or will be) bound to; follows `connected` / `character_switched`. */
+  get characterName(): string {
+    return this._characterName;
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === SOCKET_OPEN;
+  }
+
+  /** Encoding to use for uploaded audio in this session (negotiated on connect). */
+  get uploadFormat(): AudioUploadFormat {
+    return this._uploadFormat;
+  }
+
+  /** Upload encoding to request; applies from the next connect (or reconnect). */
+  setPreferredUploadFormat(format: AudioUploadFormat): void {
+    this.options.uploadFormat = format;
+  }
+
+  /** Audio currently travels as binary frames (negotiated on connect). */
+  get binaryAudio(): boolean {
+    return this.binaryNegotiated;
+  }
+
+  /**
+   * Open the socket and send the `connect` handshake. No-op while a socket is already open.
+   * Calling this during a reconnect countdown connects immediately.
+   */
+  connect(apiToken: string, characterName: string = this._characterName): void {
+    if (this.isOpen) return;
+
+    this.apiToken = apiToken;
+    this._characterName = characterName;
+    if (this.reconnector.isActive) {
+      this.reconnector.reset();
+      this.emit('reconnect', null);
+    }
+    this.openSocket();
+  }
+
+  private openSocket(): void {
+    if (this.socket) {
+      this.detach(this.socket);
+      this.socket.close();
+    }
+    this.setStatus({ status: 'connecting' });
+
+    const { url } = this.options;
+    const socket = this.options.createSocket(typeof url === 'function' ? url() : url);
+    socket.binaryType = 'arraybuffer';
+    this.socket = socket;
+    this.binaryNegotiated = false;
+    this._uploadFormat = 'pcm_s16le';
+
+    this.connectTimer = setTimeout(() => {
+      this.connectTimer = null;
+      if (socket.readyState === SOCKET_CONNECTING) {
+        this.detach(socket);
+        socket.close();
+        this.socket = null;
+        this.setStatus({ status: 'error', reason: 'timeout' });
+        this.scheduleReconnect();
+      }
+    }, this.options.connectTimeoutMs);
+
+    socket.onopen = () => {
+      this.clearConnectTimer();
+      this.sendRaw({
+        type: 'connect',
+        api_token: this.apiToken,
+        character_name: this._characterName,
+        // Omitted unless wanted, so the handshake stays byte-identical for older servers
+        ...(this.options.binaryAudio ? { binary_audio: true } : {}),
+        ...(this.options.uploadFormat !== 'pcm_s16le' ? { upload_audio_format: this.options.uploadFormat } : {}),
+      });
+      this.startPing();
+    };
+
+    socket.onmessage = (event) => this.handleFrame(event.data);
+
+    socket.onerror = () => {
+      this.clearConnectTimer();
+      this.setStatus({ status: 'error', reason: 'socket_error' });
+    };
+
+    socket.onclose = () => {
+      this.clearConnectTimer();
+      this.stopPing();
+      this.socket = null;
+      this.setStatus({ status: 'disconnected', reason: 'closed' });
+      this.scheduleReconnect();
+    };
+  }
+
+  /** Start or continue the backoff cycle if the session should be resumed. */
+  private scheduleReconnect(): void {
+    if (!this.shouldReconnect) {
+      this.failOutbox();
+      return;
+    }
+    const schedule = this.reconnector.schedule();
+    if (schedule) {
+      this.emit('reconnect', schedule);
+    } else {
+      const attempts = this.reconnector.attempt;
+      this.shouldReconnect = false;
+      this.reconnector.reset();
+      this.emit('reconnect', null);
+      this.emit('reconnect_failed', { attempts });
+      this.failOutbox();
+    }
+  }
+
+  /**
+   * Close the socket and cancel any pending reconnect.
+   */
+  disconnect(): void {
+    this.clearConnectTimer();
+    this.shouldReconnect = false;
+    this.unansweredText = null;
+    if (this.reconnector.isActive) {
+      this.reconnector.reset();
+      this.emit('reconnect', null);
+    }
+    this.stopPing();
+    const socket = this.socket;
+    if (socket) {
+      this.detach(socket);
+      socket.close();
+      this.socket = null;
+    }
+    this.failOutbox();
+    this.setStatus({ status: 'disconnected', reason: 'user' });
+  }
+
+  /**
+   * Send a message if the socket is open. Returns false when it was dropped.
+   */
+  send(message: ClientMessage, options: SendOptions = {}): boolean {
+    const entry: OutboxEntry = { id: options.id, message };
+
+    if (QUEUEABLE_TYPES.has(message.type)) {
+      // Conversation messages need an accepted session, not just an open socket
+      if (this._status === 'connected' && this.isOpen) {
+        return this.deliver(entry);
+      }
+      if (this._status === 'connecting' || this.reconnector.isActive) {
+        this.outbox.push(entry);
+        this.emitDelivery(entry, 'queued');
+        return true;
+      }
+      console.error('WebSocket is not connected');
+      this.emitDelivery(entry, 'failed');
+      return false;
+    }
+
+    if (!this.isOpen) {
+      console.error('WebSocket is not connected');
+      return false;
+    }
+    // A new live stream numbers its binary frames from 0
+    if (message.type === 'voice_call_start') this.sendSequence.delete(AudioStreamId.voiceCall);
+    if (message.type === 'audio_stream_start') this.sendSequence.delete(AudioStreamId.audioStream);
+    return this.sendRaw(message);
+  }
+
+  /**
+   * Send a chunk of live microphone audio (`data` encoded as `format`): a binary frame when
+   * negotiated, otherwise the matching `*_audio_chunk` JSON message with base64 payload.
+   */
+  sendAudioChunk(
+    stream: OutgoingAudioStream,
+    data: Uint8Array,
+    sampleRate: number,
+    format: AudioUploadFormat = 'pcm_s16le'
+  ): boolean {
+    if (!this.isOpen || !this.socket) {
+      console.error('WebSocket is not connected');
+      return false;
+    }
+    const codec = codecForFormat(format);
+    if (this.binaryNegotiated && codec !== undefined) {
+      const streamId = outgoingStreamIds[stream];
+      const sequence = this.sendSequence.get(streamId) ?? 0;
+      this.sendSequence.set(streamId, sequence + 1);
+      this.socket.send(encodeAudioFrame(streamId, sequence, sampleRate, data, codec));
+      return true;
+    }
+    const audio_base64 = bytesToBase64(data);
+    // PCM messages stay exactly as older servers expect them
+    const audio_format = format === 'pcm_s16le' ? undefined : format;
+    return this.sendRaw(
+      stream === 'voice_call'
+        ? { type: 'voice_call_audio_chunk', audio_base64, audio_format }
+        : { type: 'audio_stream_chunk', audio_base64, audio_format }
+    );
+  }
+
+  /**
+   * Cancel the current reply. The local `interrupt` event fires first so audio stops without
+   * waiting for the server.
+   */
+  interrupt(): void {
+    // The interrupted request must not be resent after a reconnect
+    this.unansweredText = null;
+    this.emit('interrupt', { at: Date.now() });
+    if (this.isOpen) {
+      this.sendRaw({ type: 'interrupt' });
+    }
+  }
+
+  /** Number of messages waiting for the connection. */
+  get queuedCount(): number {
+    return this.outbox.length;
+  }
+
+  /** Drop a queued message (e.g. the user deleted its bubble). */
+  discardQueued(id: string): void {
+    this.outbox = this.outbox.filter((entry) => entry.id !== id);
+  }
+
+  private deliver(entry: OutboxEntry): boolean {
+    if (entry.message.type === 'message') {
+      this.unansweredText = entry.message;
+    }
+    const sent = this.sendRaw(entry.message);
+    this.emitDelivery(entry, sent ? 'sent' : 'failed');
+    return sent;
+  }
+
+  private flushOutbox(): void {
+    const entries = this.outbox;
+    this.outbox = [];
+    for (const entry of entries) {
+      this.deliver(entry);
+    }
+  }
+
+  /** Connection is given up: everything still queued will not be sent. */
+  private failOutbox(): void {
+    const entries = this.outbox;
+    this.outbox = [];
+    for (const entry of entries) {
+      this.emitDelivery(entry, 'failed');
+    }
+  }
+
+  private emitDelivery(entry: OutboxEntry, state: DeliveryState): void {
+    if (entry.id) {
+      this.emit('delivery', { id: entry.id, state });
+    }
+  }
+
+  private sendRaw(message: ClientMessage): boolean {
+    if (!this.socket) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private handleFrame(data: unknown): void {
+    if (data instanceof ArrayBuffer) {
+      this.handleBinaryFrame(data);
+      return;
+    }
+    if (typeof data !== 'string') return;
+
+    const result = validateServerMessage(data);
+    if (!result.ok) {
+      this.reportViolation(result.violation);
+      return;
+    }
+    const message = result.message;
+
+    switch (message.type) {
+      case 'connected': {
+        const resumed = this.reconnector.isActive;
+        this._characterName = message.character;
+        this.shouldReconnect = true;
+        this.binaryNegotiated = this.options.binaryAudio && message.binary_audio === true;
+        this._uploadFormat =
+          message.upload_audio_format === this.options.uploadFormat ? this.options.uploadFormat : 'pcm_s16le';
+        this.sendSequence.clear();
+        if (resumed) {
+          this.reconnector.reset();
+          this.emit('reconnect', null);
+        }
+        this.setStatus({ status: 'connected' });
+        // The reply to the last text message was lost with the old socket; ask again
+        if (resumed && this.unansweredText) {
+          const pending = this.unansweredText;
+          this.sendRaw(pending);
+          this.emit('resent', pending);
+        }
+        // Then everything typed while offline, in order
+        this.flushOutbox();
+        // First latency sample right away instead of one interval later
+        this.sendPing();
+        break;
+      }
+      case 'character_switched':
+        this._characterName = message.character;
+        break;
+      case 'pong':
+        this.handlePong();
+        break;
+      case 'llm_start':
+      case 'response':
+      case 'error':
+        // The server picked up the request; it is answered (or failed) and must not be resent
+        this.unansweredText = null;
+        break;
+      case 'disconnected':
+        // Server ended the session on purpose (e.g. bad token); do not fight it with reconnects
+        this.shouldReconnect = false;
+        this.setStatus({ status: 'disconnected', reason: 'server_disconnect', message: message.message });
+        break;
+    }
+
+    this.emit('message', message);
+    // Per-type event; the cast is safe because the key is the message's own discriminant
+    (this.emit as (event: ServerMessage['type'], payload: ServerMessage) => void)(message.type, message);
+
+    if (message.type === 'audio_chunk') {
+      this.emit('audio', {
+        format: message.audio_format,
+        sampleRate: message.audio_sample_rate,
+        data: base64ToBytes(message.audio_base64),
+      });
+    }
+  }
+
+  private handleBinaryFrame(data: ArrayBuffer): void {
+    const frame = decodeAudioFrame(data);
+    if (typeof frame === 'string') {
+      this.reportViolation(binaryViolation(frame, data));
+      return;
+    }
+    if (frame.streamId !== AudioStreamId.tts) {
+      this.reportViolation(binaryViolation(`unexpected binary stream id ${frame.streamId}`, data));
+      return;
+    }
+    this.emit('audio', {
+      format: frame.format,
+      sampleRate: frame.sampleRate,
+      data: frame.payload,
+      sequence: frame.sequence,
+    });
+  }
+
+  private reportViolation(violation: ProtocolViolation): void {
+    if (violation.kind === 'unknown_type') {
+      // Newer backends may add message types; ignore them but say so once per type
+      if (violation.type && !this.warnedUnknownTypes.has(violation.type)) {
+        this.warnedUnknownTypes.add(violation.type);
+        console.warn(`Ignoring unknown server message type "${violation.type}"`);
+      }
+    } else {
+      console.error('Protocol violation:', violation.detail, violation.raw);
+    }
+    this.emit('protocol_error', violation);
+  }
+
+  private setStatus(change: StatusChange): void {
+    this._status = change.status;
+    this.emit('status', change);
+  }
+
+  private startPing(): void {
+    this.stopPing();
+    this.pingTimer = setInterval(() => this.heartbeat(), this.options.pingIntervalMs);
+  }
+
+  private stopPing(): void {
+    if (this.pingTimer !== null) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    this.pingSentAt = null;
+    this.missedPongs = 0;
+  }
+
+  /** Interval tick: a ping still outstanding from the last tick counts as missed. */
+  private heartbeat(): void {
+    if (this.pingSentAt !== null) {
+      this.missedPongs += 1;
+      const threshold = this.options.maxMissedPongs;
+      this.emit('heartbeat_missed', { missed: this.missedPongs, threshold });
+      if (this.missedPongs >= threshold) {
+        this.dropDeadSocket();
+        return;
+      }
+    }
+    this.sendPing();
+  }
+
+  private sendPing(): void {
+    if (!this.isOpen) return;
+    this.pingSentAt = performance.now();
+    this.sendRaw({ type: 'ping' });
+  }
+
+  private handlePong(): void {
+    if (this.pingSentAt === null) return;
+    const rttMs = Math.round(performance.now() - this.pingSentAt);
+    this.pingSentAt = null;
+    if (this.missedPongs > 0) {
+      this.missedPongs = 0;
+      this.emit('heartbeat_missed', { missed: 0, threshold: this.options.maxMissedPongs });
+    }
+    this.emit('latency', { rttMs, at: Date.now() });
+  }
+
+  /**
+   * The socket looks open but the server stopped answering (half-open TCP, sleeping laptop).
+   * Waiting for the browser to notice can take minutes, so close it ourselves and resume.
+   */
+  private dropDeadSocket(): void {
+    this.stopPing();
+    const socket = this.socket;
+    if (socket) {
+      this.detach(socket);
+      socket.close();
+      this.socket = null;
+    }
+    this.setStatus({ status: 'disconnected', reason: 'heartbeat_timeout' });
+    this.scheduleReconnect();
+  }
+
+  private clearConnectTimer(): void {
+    if (this.connectTimer !== null) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+
+  /** Stop a socket we are abandoning from reporting back into the client. */
+  private detach(socket: SocketLike): void {
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+  }
+}
+
+/** Shared client for the whole app; components talk to the server only through this instance. */
+export const chatClient = new ChatClient({ url: getWsEndpoint, binaryAudio: isBinaryAudioEnabled() });
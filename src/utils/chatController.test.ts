@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useChatStore } from '@/stores/chatStore';
+import { ChatClient } from '@/utils/chatClient';
+import { ChatController } from '@/utils/chatController';
+import { fakeSocketFactory } from '@/utils/fakeSocket';
+
+function last<T>(items: T[]): T | undefined {
+  return items[items.length - 1];
+}
+
+function setup() {
+  const factory = fakeSocketFactory();
+  const client = new ChatClient({
+    url: 'ws://test/ws',
+    createSocket: factory.createSocket,
+    reconnectPolicy: { baseDelayMs: 1000, maxDelayMs: 8000, factor: 2, jitter: 0, maxAttempts: 3 },
+  });
+  const controller = new ChatController(client);
+  return { client, controller, factory };
+}
+
+/** Let the store's history loads and writes settle. */
+const settle = () => vi.waitFor(() => expect(useChatStore.getState().activeSession).not.toBeNull());
+
+describe('ChatController', () => {
+  let current: ReturnType<typeof setup>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    useChatStore.getState().reset();
+    useChatStore.setState({ apiToken: 'token' });
+    current = setup();
+  });
+
+  afterEach(() => {
+    current.controller.dispose();
+    current.client.disconnect();
+  });
+
+  it('mirrors the connection into the store and loads the thread of the accepted character', async () => {
+    const { controller, factory } = current;
+    controller.connect('anon');
+    expect(useChatStore.getState().connectionStatus).toBe('connecting');
+
+    factory.last.accept('soyo');
+    expect(useChatStore.getState()).toMatchObject({ connectionStatus: 'connected', errorMessage: null });
+    expect(useChatStore.getState().currentCharacter?.name).toBe('soyo');
+    await settle();
+    expect(useChatStore.getState().activeSession?.character).toBe('soyo');
+  });
+
+  it('asks for a token before connecting', () => {
+    useChatStore.setState({ apiToken: '' });
+    current.controller.connect('anon');
+    expect(current.factory.sockets).toHaveLength(0);
+    expect(useChatStore.getState().errorMessage).toBe('请输入 API Token');
+  });
+
+  it('builds the reply bubble and pipeline stages from a turn', async () => {
+    const { controller, factory } = current;
+    controller.connect('anon');
+    factory.last.accept();
+    await settle();
+    const socket = factory.last;
+
+    controller.sendText('你好');
+    expect(socket.messages('message')).toEqual([{ type: 'message', content: '你好' }]);
+
+    socket.receive({ type: 'thinking', message: '思考中' });
+    expect(useChatStore.getState().isThinking).toBe(true);
+    socket.receive({ type: 'llm_start' });
+    const { currentTurnId } = useChatStore.getState();
+    expect(currentTurnId).not.toBeNull();
+    expect(useChatStore.getState().pipelineStage).toBe('llm');
+
+    socket.receive({ type: 'response', content_cn: '你好呀', content_jp: 'こんにちは', emotion: 'happy' });
+    socket.receive({ type: 'tts_start', text: '你好呀', emotion: 'happy' });
+    expect(useChatStore.getState()).toMatchObject({ pipelineStage: 'tts', isThinking: false });
+    socket.receive({ type: 'audio_chunk', audio_base64: 'AAAA', audio_format: 'pcm_s16le', audio_sample_rate: 24000 });
+    expect(useChatStore.getState()).toMatchObject({ pipelineStage: 'playing', isPlaying: true });
+
+    socket.receive({ type: 'turn_end' });
+    expect(useChatStore.getState().pipelineStage).toBe('idle');
+    const reply = last(useChatStore.getState().messages);
+    expect(reply).toMatchObject({ role: 'assistant', content: '你好呀', turnId: currentTurnId, isPartial: false });
+  });
+
+  it('marks a text bubble pending while reconnecting and sent once the session resumes', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    try {
+      const { controller, factory } = current;
+      controller.connect('anon');
+      factory.last.accept();
+      await settle();
+
+      factory.last.drop();
+      expect(useChatStore.getState().reconnectSchedule).toMatchObject({ attempt: 1 });
+      controller.sendText('还在吗');
+      const bubble = () => useChatStore.getState().messages.find((m) => m.content === '还在吗');
+      expect(bubble()?.deliveryStatus).toBe('pending');
+
+      vi.advanceTimersByTime(1000);
+      factory.last.accept();
+      expect(bubble()?.deliveryStatus).toBe('sent');
+      expect(factory.last.messages('message')).toEqual([{ type: 'message', content: '还在吗' }]);
+      expect(useChatStore.getState().reconnectSchedule).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not leave the UI thinking when the socket dies mid-turn', async () => {
+    const { controller, factory } = current;
+    controller.connect('anon');
+    factory.last.accept();
+    await settle();
+
+    factory.last.receive({ type: 'thinking', message: '思考中' });
+    factory.last.receive({ type: 'llm_start' });
+    factory.last.drop();
+    expect(useChatStore.getState()).toMatchObject({
+      connectionStatus: 'disconnected',
+      isThinking: false,
+      pipelineStage: 'idle',
+    });
+  });
+
+  it('ignores what the server still sends for a reply the user interrupted', async () => {
+    const { controller, factory } = current;
+    controller.connect('anon');
+    factory.last.accept();
+    await settle();
+
+    factory.last.receive({ type: 'llm_start' });
+    controller.interrupt();
+    expect(factory.last.messages('interrupt')).toHaveLength(1);
+    factory.last.receive({ type: 'response', content_cn: '迟到的', content_jp: '', emotion: 'neutral' });
+    factory.last.receive({ type: 'audio_chunk', audio_base64: 'AAAA', audio_format: 'pcm_s16le', audio_sample_rate: 24000 });
+
+    expect(useChatStore.getState().messages.some((m) => m.content === '迟到的')).toBe(false);
+    expect(useChatStore.getState().isPlaying).toBe(false);
+  });
+});
@@ -0,0 +1,477 @@
+// Chat Controller
+//
+// Binds a ChatClient to the chat store: mirrors connection status and server messages into the
+// store, traces turn timing, and owns the upload state of voice calls and streaming push-to-talk
+// (encoders, audio held until audio_stream_started). React components reach it through
+// useWebSocket; tests construct one around their own client and dispose it afterwards.
+
+import { useChatStore } from '@/stores/chatStore';
+import type { AudioMessage, Character, CharactersResponse, ClientMessage, ServerMessage } from '@/utils/websocket';
+import { chatClient, type ChatClient, type OutgoingAudioStream, type StatusChange } from '@/utils/chatClient';
+import { TurnTraceRecorder } from '@/utils/turnTrace';
+import { getApiBase } from '@/config/api';
+import { AUDIO_CONFIG, bytesToBase64, concatInt16, int16ToBase64, int16ToBytes } from '@/utils/audio';
+import {
+  createOpusStreamEncoder,
+  encodeOpus,
+  isOpusEncodingSupported,
+  packOpusPackets,
+  type OpusStreamEncoder,
+} from '@/utils/opusEncoder';
+
+/** How long a released recording waits for audio_stream_started before it is sent in one piece. */
+const AUDIO_STREAM_START_TIMEOUT_MS = 3000;
+
+const statusErrorText: Partial<Record<NonNullable<StatusChange['reason']>, string>> = {
+  timeout: '连接超时，请检查服务器是否已启动',
+  socket_error: '连接错误',
+  heartbeat_timeout: '服务器无响应，连接已断开',
+};
+
+export class ChatController {
+  private readonly turnTracer: TurnTraceRecorder;
+  private readonly unsubscribers: (() => void)[];
+  /** Resolved once; until then (and where unsupported) uploads ask for PCM. */
+  private opusSupported = false;
+  /** Encoder of the running voice call when Opus upload was negotiated. */
+  private callEncoder: OpusStreamEncoder | null = null;
+  // Streaming push-to-talk (audio_stream_* protocol); its phase is audioStreamStatus in the store
+  /** Audio recorded before the server confirmed the stream with audio_stream_started. */
+  private streamPending: Int16Array[] = [];
+  private streamEncoder: OpusStreamEncoder | null = null;
+  /** The button was released before the stream was confirmed. */
+  private streamEndRequested = false;
+  private streamFallbackTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly client: ChatClient) {
+    this.turnTracer = new TurnTraceRecorder(
+      (trace) => useChatStore.getState().upsertTurnTrace(trace),
+      () => useChatStore.getState().currentTurnId
+    );
+
+    // Some browsers reject the WebCodecs probe instead of answering false; the WASM fallback may fail to load
+    isOpusEncodingSupported(AUDIO_CONFIG.sampleRate)
+      .then((supported) => {
+        this.opusSupported = supported;
+      })
+      .catch(() => {
+        this.opusSupported = false;
+      });
+
+    const store = () => useChatStore.getState();
+    this.unsubscribers = [
+      client.on('status', (change) => this.handleStatus(change)),
+      client.on('message', (message) => this.handleServerMessage(message)),
+      // After handleServerMessage, so llm_start has already assigned currentTurnId
+      client.on('message', (message) => this.turnTracer.handleMessage(message)),
+      client.on('protocol_error', (violation) => store().addProtocolViolation(violation)),
+      client.on('reconnect', (schedule) => store().setReconnectSchedule(schedule)),
+      client.on('reconnect_failed', ({ attempts }) => {
+        store().setErrorMessage(`重连失败（已尝试 ${attempts} 次），请手动连接`);
+      }),
+      client.on('resent', () => store().setIsThinking(true)),
+      // Reply audio from either transport (JSON audio_chunk or binary frame)
+      client.on('audio', () => {
+        const { currentTurnId, interruptedTurnId, setPipelineStage, setIsPlaying } = store();
+        if (currentTurnId && currentTurnId === interruptedTurnId) return;
+        this.turnTracer.markAudio();
+        setPipelineStage('playing');
+        setIsPlaying(true);
+      }),
+      client.on('latency', (sample) => store().addLatencySample(sample)),
+      client.on('heartbeat_missed', ({ missed }) => store().setMissedPongs(missed)),
+      client.on('delivery', ({ id, state }) => {
+        if (state === 'sent') this.turnTracer.markRequest();
+        const deliveryStatus = state === 'queued' ? 'pending' : state;
+        store().updateMessage(id, { deliveryStatus });
+      }),
+    ];
+  }
+
+  /** Detach from the client and drop any upload in progress. */
+  dispose(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.resetAudioStream();
+    this.callEncoder?.close();
+    this.callEncoder = null;
+  }
+
+  async fetchCharacters(): Promise<Character[]> {
+    try {
+      const response = await fetch(`${getApiBase()}/characters`);
+      if (response.ok) {
+        const data: CharactersResponse = await response.json();
+        useChatStore.getState().setCharacters(data.characters);
+        return data.characters;
+      }
+    } catch (error) {
+      console.error('Failed to fetch characters:', error);
+    }
+    return [];
+  }
+
+  connect(characterName: string): void {
+    const { apiToken, audioUploadFormat, setErrorMessage } = useChatStore.getState();
+    if (!apiToken) {
+      setErrorMessage('请输入 API Token');
+      return;
+    }
+    const wantsOpus = audioUploadFormat === 'opus' && this.opusSupported;
+    this.client.setPreferredUploadFormat(wantsOpus ? 'opus' : 'pcm_s16le');
+    this.client.connect(apiToken, characterName);
+  }
+
+  disconnect(): void {
+    this.client.disconnect();
+  }
+
+  /** Show a text message and send it; queued in the client outbox while (re)connecting. */
+  sendText(content: string): void {
+    if (!content.trim()) return;
+    const id = crypto.randomUUID();
+    useChatStore.getState().addMessage({
+      id,
+      role: 'user',
+      content,
+      timestamp: new Date(),
+      source: 'text',
+    });
+    this.client.send({ type: 'message', content }, { id });
+  }
+
+  /** Resend a failed text message under the same bubble. */
+  retryMessage(id: string): void {
+    const message = useChatStore.getState().messages.find((m) => m.id === id);
+    if (!message || message.role !== 'user') return;
+    this.client.send({ type: 'message', content: message.content }, { id });
+  }
+
+  /** Remove an unsent message from the thread and the outbox. */
+  discardMessage(id: string): void {
+    this.client.discardQueued(id);
+    useChatStore.getState().deleteMessage(id);
+  }
+
+  /** Send a finished recording as one audio message; Opus-encoded when negotiated, PCM if encoding fails. */
+  async sendAudioRecording(pcm: Int16Array): Promise<void> {
+    let message: AudioMessage | null = null;
+    if (this.client.uploadFormat === 'opus') {
+      try {
+        const encoded = await encodeOpus(pcm, AUDIO_CONFIG.sampleRate);
+        message = { type: 'audio_message', audio_base64: bytesToBase64(encoded), audio_format: 'opus' };
+      } catch (error) {
+        console.warn('Opus encoding failed, sending PCM:', error);
+      }
+    }
+    message ??= { type: 'audio_message', audio_base64: int16ToBase64(pcm) };
+    this.sendRequest(message);
+  }
+
+  /**
+   * Streaming push-to-talk: chunks are held until audio_stream_started.
+   * @returns false when audio_stream_start could not be sent (socket not open); nothing is recorded then
+   */
+  startAudioStream(): boolean {
+    this.resetAudioStream();
+    useChatStore.getState().setPartialTranscription('');
+    if (!this.client.send({ type: 'audio_stream_start' })) return false;
+    useChatStore.getState().setAudioStreamStatus('starting');
+    return true;
+  }
+
+  sendAudioStreamChunk(pcm: Int16Array): void {
+    const { audioStreamStatus } = useChatStore.getState();
+    if (audioStreamStatus === 'starting') {
+      this.streamPending.push(pcm);
+    } else if (audioStreamStatus === 'streaming') {
+      this.sendStreamAudio(pcm);
+    }
+  }
+
+  async endAudioStream(): Promise<void> {
+    const { audioStreamStatus } = useChatStore.getState();
+    if (audioStreamStatus === 'streaming') {
+      await this.finishAudioStream();
+    } else if (audioStreamStatus === 'starting') {
+      // A second release (e.g. keyup then window blur) must not arm another fallback
+      if (this.streamEndRequested) return;
+      this.streamEndRequested = true;
+      // Not confirmed yet (slow or older server): finish on confirmation, else send it in one piece
+      this.streamFallbackTimer = setTimeout(() => {
+        this.streamFallbackTimer = null;
+        const pcm = concatInt16(this.resetAudioStream());
+        if (pcm.length > 0) this.sendAudioRecording(pcm);
+      }, AUDIO_STREAM_START_TIMEOUT_MS);
+    }
+  }
+
+  startVoiceCall(): void {
+    this.callEncoder?.close();
+    this.callEncoder = this.createUploadEncoder('voice_call');
+    this.client.send({ type: 'voice_call_start' });
+  }
+
+  sendVoiceCallChunk(pcm: Int16Array): void {
+    if (this.callEncoder) {
+      this.callEncoder.encode(pcm);
+    } else {
+      this.client.sendAudioChunk('voice_call', int16ToBytes(pcm), AUDIO_CONFIG.sampleRate);
+    }
+  }
+
+  async stopVoiceCall(): Promise<void> {
+    const encoder = this.callEncoder;
+    this.callEncoder = null;
+    if (encoder) {
+      // Send the audio still inside the encoder before the server closes the utterance
+      await flushEncoder(encoder);
+    }
+    this.client.send({ type: 'voice_call_stop' });
+  }
+
+  switchCharacter(characterName: string): void {
+    this.client.send({ type: 'switch_character', character_name: characterName });
+  }
+
+  /** Barge-in: cancel the reply being generated or spoken. */
+  interrupt(): void {
+    const store = useChatStore.getState();
+    store.setInterruptedTurnId(store.currentTurnId);
+    store.setIsThinking(false);
+    store.setPipelineStage('idle');
+    this.client.interrupt();
+  }
+
+  clearHistory(): void {
+    this.client.send({ type: 'clear_history' });
+  }
+
+  /** Send a message that starts a turn; its timing starts once it actually leaves. */
+  private sendRequest(message: ClientMessage): void {
+    const sent = this.client.send(message);
+    if (sent && this.client.status === 'connected') this.turnTracer.markRequest();
+  }
+
+  /** Opus stream encoder sending packets on `stream`, or null to upload PCM. */
+  private createUploadEncoder(stream: OutgoingAudioStream): OpusStreamEncoder | null {
+    if (this.client.uploadFormat !== 'opus') return null;
+    try {
+      return createOpusStreamEncoder(AUDIO_CONFIG.sampleRate, (packet) => {
+        this.client.sendAudioChunk(stream, packOpusPackets([packet]), AUDIO_CONFIG.sampleRate, 'opus');
+      });
+    } catch (error) {
+      console.warn('Opus encoder unavailable, streaming PCM:', error);
+      return null;
+    }
+  }
+
+  private sendStreamAudio(pcm: Int16Array): void {
+    if (this.streamEncoder) {
+      this.streamEncoder.encode(pcm);
+    } else {
+      this.client.sendAudioChunk('audio_stream', int16ToBytes(pcm), AUDIO_CONFIG.sampleRate);
+    }
+  }
+
+  /** Forget the current audio stream; returns the audio that was never sent. */
+  private resetAudioStream(): Int16Array[] {
+    const pending = this.streamPending;
+    this.streamPending = [];
+    this.streamEndRequested = false;
+    if (this.streamFallbackTimer !== null) {
+      clearTimeout(this.streamFallbackTimer);
+      this.streamFallbackTimer = null;
+    }
+    this.streamEncoder?.close();
+    this.streamEncoder = null;
+    useChatStore.getState().setAudioStreamStatus('idle');
+    return pending;
+  }
+
+  private handleAudioStreamStarted(): void {
+    const store = useChatStore.getState();
+    if (store.audioStreamStatus !== 'starting') return;
+    store.setAudioStreamStatus('streaming');
+    this.streamEncoder = this.createUploadEncoder('audio_stream');
+    const pending = this.streamPending;
+    this.streamPending = [];
+    pending.forEach((pcm) => this.sendStreamAudio(pcm));
+    if (this.streamEndRequested) this.finishAudioStream();
+  }
+
+  private async finishAudioStream(): Promise<void> {
+    const encoder = this.streamEncoder;
+    this.streamEncoder = null;
+    this.resetAudioStream();
+    if (encoder) {
+      // Send the audio still inside the encoder before the server closes the stream
+      await flushEncoder(encoder);
+    }
+    this.sendRequest({ type: 'audio_stream_end' });
+  }
+
+  // Mirror client status into the store
+  private handleStatus({ status, reason, message }: StatusChange): void {
+    const store = useChatStore.getState();
+    store.setConnectionStatus(status);
+    if (status === 'connecting') {
+      store.setErrorMessage(null);
+    } else if (reason === 'server_disconnect' && message) {
+      store.setErrorMessage(message);
+    } else if (reason && statusErrorText[reason] && !store.reconnectSchedule) {
+      // Failed attempts inside a reconnect cycle are shown by the countdown, not as toasts
+      store.setErrorMessage(statusErrorText[reason]!);
+    }
+    if (status !== 'connected') {
+      store.setMissedPongs(0);
+    }
+    if (status === 'disconnected' || status === 'error') {
+      // The in-flight turn died with the socket; do not leave the UI stuck in "thinking"
+      store.setIsThinking(false);
+      store.setPipelineStage('idle');
+      if (store.currentTurnId) store.finalizeTurn(store.currentTurnId);
+      this.resetAudioStream();
+    }
+  }
+
+  // Apply server messages to the store (audio playback subscribes separately in useAudioPlayer)
+  private handleServerMessage(message: ServerMessage): void {
+    const store = useChatStore.getState();
+
+    // After a barge-in the server may still flush parts of the cancelled turn; drop them
+    if (store.currentTurnId && store.currentTurnId === store.interruptedTurnId) {
+      switch (message.type) {
+        case 'response':
+        case 'tts_start':
+        case 'audio_end':
+          return;
+      }
+    }
+
+    switch (message.type) {
+      case 'connected': {
+        const fromList = store.characters.find((c) => c.name === message.character);
+        store.setCurrentCharacter(
+          fromList ?? {
+            name: message.character,
+            display_name: message.character_display_name,
+            description: '',
+            voice_id: '',
+          }
+        );
+        store.setErrorMessage(null);
+        store.loadHistory(message.character);
+        break;
+      }
+
+      case 'thinking':
+        store.setIsThinking(true);
+        store.setPipelineStage('idle');
+        break;
+
+      case 'asr_start':
+        store.setPipelineStage('asr');
+        break;
+
+      case 'asr_end':
+        store.setPartialTranscription('');
+        store.addMessage({
+          id: crypto.randomUUID(),
+          role: 'user',
+          content: message.text,
+          timestamp: new Date(),
+          source: 'voice',
+        });
+        break;
+
+      case 'llm_start':
+        store.setPipelineStage('llm');
+        // New assistant turn: replies and their audio are grouped under this id
+        store.setCurrentTurnId(crypto.randomUUID());
+        break;
+
+      case 'tts_start':
+        store.setPipelineStage('tts');
+        store.setIsThinking(false);
+        break;
+
+      case 'transcription':
+        store.setPartialTranscription(message.is_partial ? message.text : '');
+        break;
+
+      case 'audio_stream_started':
+        this.handleAudioStreamStarted();
+        break;
+
+      case 'audio_end':
+        // Stream ended; do NOT set isPlaying(false) here - playback may still be
+        // draining the queue. useAudioPlayer will set isPlaying(false) and
+        // pipelineStage when the queue actually finishes (checkPlaybackEnded).
+        break;
+
+      case 'response':
+        // Per-sentence response (multi-sentence TTS: one response per sentence), appended to the
+        // turn's bubble; do NOT set pipeline to idle here — wait for turn_end.
+        store.setIsThinking(false);
+        store.appendReplySegment(store.currentTurnId, {
+          content: message.content_cn,
+          contentJp: message.content_jp,
+          emotion: message.emotion,
+        });
+        break;
+
+      case 'turn_end':
+        // Turn complete (all sentences sent). Idle pipeline; playback may still be draining.
+        store.setIsThinking(false);
+        store.setPipelineStage('idle');
+        if (store.currentTurnId) store.finalizeTurn(store.currentTurnId);
+        break;
+
+      case 'voice_call_listening':
+        store.setPipelineStage('idle');
+        store.setIsThinking(false);
+        break;
+
+      case 'character_switched': {
+        const fromList = store.characters.find((c) => c.name === message.character);
+        store.setCurrentCharacter(
+          fromList ?? {
+            name: message.character,
+            display_name: message.character_display_name,
+            description: '',
+            voice_id: '',
+          }
+        );
+        // Each character keeps its own persisted thread; restore it instead of starting empty
+        store.loadHistory(message.character);
+        break;
+      }
+
+      case 'history_cleared':
+        store.clearMessages();
+        break;
+
+      case 'error':
+        store.setErrorMessage(message.message);
+        store.setIsThinking(false);
+        store.setPipelineStage('idle');
+        if (store.currentTurnId) store.finalizeTurn(store.currentTurnId);
+        // A failed stream is closed on the server; stop sending into it
+        if (store.audioStreamStatus !== 'idle') this.resetAudioStream();
+        break;
+    }
+  }
+}
+
+/** Push the audio still inside an encoder out before its stream is closed, then release it. */
+async function flushEncoder(encoder: OpusStreamEncoder): Promise<void> {
+  try {
+    await encoder.flush();
+  } catch (error) {
+    console.warn('Opus flush failed:', error);
+  }
+  encoder.close();
+}
+
+/** The app's controller around the shared client. */
+export const chatController = new ChatController(chatClient);
@@ -0,0 +1,12 @@
+/**
+ * Trigger a browser download for generated content (transcripts, audio).
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke on the next tick; revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,67 @@
+// In-memory SocketLike for tests: records what the client sends and lets a test play the server
+
+import type { SocketLike } from '@/utils/chatClient';
+import type { ClientMessage, ServerMessage } from '@/utils/websocket';
+
+export class FakeSocket implements SocketLike {
+  readyState = 0;
+  binaryType: BinaryType = 'blob';
+  onopen: SocketLike['onopen'] = null;
+  onmessage: SocketLike['onmessage'] = null;
+  onerror: SocketLike['onerror'] = null;
+  onclose: SocketLike['onclose'] = null;
+  readonly sent: (string | ArrayBufferLike | Blob | ArrayBufferView)[] = [];
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  /** JSON messages sent so far, optionally only those of one type. */
+  messages(type?: ClientMessage['type']): ClientMessage[] {
+    const messages = this.sent
+      .filter((data): data is string => typeof data === 'string')
+      .map((data) => JSON.parse(data) as ClientMessage);
+    return type ? messages.filter((message) => message.type === type) : messages;
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.call(this as unknown as WebSocket, new Event('open'));
+  }
+
+  receive(message: ServerMessage): void {
+    this.onmessage?.call(this as unknown as WebSocket, new MessageEvent('message', { data: JSON.stringify(message) }));
+  }
+
+  /** Open and accept the session, as a server does for a valid token. */
+  accept(character = 'anon'): void {
+    this.open();
+    this.receive({ type: 'connected', character, character_display_name: character, message: 'ok' });
+  }
+
+  /** The connection went away (server restart, network loss). */
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.call(this as unknown as WebSocket, new Event('close') as CloseEvent);
+  }
+}
+
+/** createSocket for ChatClient that keeps every socket it made, newest last. */
+export function fakeSocketFactory() {
+  const sockets: FakeSocket[] = [];
+  return {
+    sockets,
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    get last(): FakeSocket {
+      return sockets[sockets.length - 1];
+    },
+  };
+}
@@ -0,0 +1,252 @@
+// Chat History Persistence (IndexedDB)
+
+import type { ChatMessage, ChatSession } from '@/stores/chatStore';
+
+const DB_NAME = 'chat-anon';
+const DB_VERSION = 4;
+const MESSAGE_STORE = 'messages';
+const SESSION_STORE = 'sessions';
+const AUDIO_STORE = 'turnAudio';
+/** Compound index over [character, sessionId] so one conversation thread loads with a single range query. */
+const SESSION_INDEX = 'by_session';
+/** Messages per turn; an imported copy of a thread shares its turnIds (and voice) with the original. */
+const TURN_INDEX = 'by_turn';
+
+/** Row shape in the messages store; Date is flattened to epoch ms so records survive structured clone across browsers. */
+interface StoredMessage extends Omit<ChatMessage, 'timestamp'> {
+  character: string;
+  sessionId: string;
+  timestamp: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MESSAGE_STORE)) {
+        const store = db.createObjectStore(MESSAGE_STORE, { keyPath: 'id' });
+        store.createIndex(SESSION_INDEX, ['character', 'sessionId']);
+      }
+      // v2: session metadata (title, archive flag, model set); v1 threads get records lazily on load
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      }
+      // v3: decoded assistant voice per turn, referenced by ChatMessage.turnId
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE, { keyPath: 'turnId' });
+      }
+      // v4: messages by turn, so a turn's voice is only deleted with the last message using it
+      const messages = request.transaction!.objectStore(MESSAGE_STORE);
+      if (!messages.indexNames.contains(TURN_INDEX)) {
+        messages.createIndex(TURN_INDEX, 'turnId');
+      }
+    };
+    // Another tab still holds an older version open and has not closed it: give up instead of
+    // waiting forever; a later call retries once that tab is gone
+    let blocked = false;
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // A newer version opened in another tab: step aside so its upgrade is not blocked
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later call to retry if opening failed (e.g. private mode quota)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function toStored(character: string, sessionId: string, message: ChatMessage): StoredMessage {
+  return {
+    ...message,
+    character,
+    sessionId,
+    timestamp: message.timestamp.getTime(),
+  };
+}
+
+function fromStored(record: StoredMessage): ChatMessage {
+  const message: ChatMessage & Partial<Pick<StoredMessage, 'character' | 'sessionId'>> = {
+    ...record,
+    timestamp: new Date(record.timestamp),
+  };
+  delete message.character;
+  delete message.sessionId;
+  return message;
+}
+
+/**
+ * Load all messages of one conversation thread, oldest first.
+ */
+export async function loadMessages(character: string, sessionId: string): Promise<ChatMessage[]> {
+  const db = await openDb();
+  const tx = db.transaction(MESSAGE_STORE, 'readonly');
+  const index = tx.objectStore(MESSAGE_STORE).index(SESSION_INDEX);
+  const records = await requestToPromise<StoredMessage[]>(
+    index.getAll(IDBKeyRange.only([character, sessionId]))
+  );
+  return records
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(fromStored);
+}
+
+/**
+ * Insert or update a single message (keyed by message id).
+ */
+export async function saveMessage(
+  character: string,
+  sessionId: string,
+  message: ChatMessage
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(MESSAGE_STORE, 'readwrite');
+  tx.objectStore(MESSAGE_STORE).put(toStored(character, sessionId, message));
+  await transactionDone(tx);
+}
+
+/**
+ * Insert or update many messages of one thread in a single transaction (used by import).
+ */
+export async function saveMessages(
+  character: string,
+  sessionId: string,
+  messages: ChatMessage[]
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(MESSAGE_STORE, 'readwrite');
+  const store = tx.objectStore(MESSAGE_STORE);
+  for (const message of messages) {
+    store.put(toStored(character, sessionId, message));
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * Delete messages of one conversation thread (all of them, or those in `ids`), including
+ * recorded voice that no remaining message (e.g. of an imported copy) still refers to.
+ */
+export async function deleteMessages(character: string, sessionId: string, ids?: string[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([MESSAGE_STORE, AUDIO_STORE], 'readwrite');
+  const store = tx.objectStore(MESSAGE_STORE);
+  const thread = await requestToPromise<StoredMessage[]>(
+    store.index(SESSION_INDEX).getAll(IDBKeyRange.only([character, sessionId]))
+  );
+  const records = ids ? thread.filter((record) => ids.includes(record.id)) : thread;
+  for (const record of records) {
+    store.delete(record.id);
+  }
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  for (const turnId of new Set(records.flatMap((record) => (record.turnId ? [record.turnId] : [])))) {
+    // Requests run in order, so the count no longer includes the rows deleted above
+    if ((await requestToPromise(store.index(TURN_INDEX).count(turnId))) === 0) {
+      audioStore.delete(turnId);
+    }
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * All session records, most recently updated first.
+ */
+export async function loadSessions(): Promise<ChatSession[]> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const sessions = await requestToPromise<ChatSession[]>(tx.objectStore(SESSION_STORE).getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Insert or update a session record.
+ */
+export async function saveSession(session: ChatSession): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(session);
+  await transactionDone(tx);
+}
+
+/**
+ * Delete a session record together with all of its messages.
+ */
+export async function deleteSession(session: ChatSession): Promise<void> {
+  await deleteMessages(session.character, session.id);
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).delete(session.id);
+  await transactionDone(tx);
+}
+
+/** Decoded PCM of one assistant turn (all sentences, in playback order). */
+export interface TurnAudio {
+  turnId: string;
+  sampleRate: number;
+  pcm: Int16Array;
+}
+
+export async function saveTurnAudio(audio: TurnAudio): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).put(audio);
+  await transactionDone(tx);
+}
+
+export async function loadTurnAudio(turnId: string): Promise<TurnAudio | null> {
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readonly');
+  const audio = await requestToPromise<TurnAudio | undefined>(tx.objectStore(AUDIO_STORE).get(turnId));
+  return audio ?? null;
+}
+
+/** Drop a turn's voice while its messages stay (a reply cut short by barge-in). */
+export async function deleteTurnAudio(turnId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).delete(turnId);
+  await transactionDone(tx);
+}
+
+/** Whether a turn's audio is stored, without reading its samples. */
+export async function hasTurnAudio(turnId: string): Promise<boolean> {
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readonly');
+  return (await requestToPromise(tx.objectStore(AUDIO_STORE).count(turnId))) > 0;
+}
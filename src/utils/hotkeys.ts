@@ -0,0 +1,156 @@
+// Keyboard shortcuts
+//
+// A binding is a combo string like "Alt+Shift+KeyV": modifiers in fixed order, then the
+// KeyboardEvent.code of the key (layout independent, so remapped keys survive an IME or a
+// different keyboard layout). useHotkeys listens on the window and dispatches; actions that
+// need component state (recording, the input box) reach their component through hotkeyCommands.
+
+import { TypedEmitter } from '@/utils/emitter';
+
+export type HotkeyAction =
+  | 'push_to_talk'
+  | 'push_to_talk_stream'
+  | 'toggle_voice_call'
+  | 'stop_playback'
+  | 'clear_history'
+  | 'next_character'
+  | 'previous_character'
+  | 'focus_input'
+  | 'show_help';
+
+/** Action -> combo; an empty combo leaves the action unbound. */
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  push_to_talk: 'Space',
+  push_to_talk_stream: 'Shift+Space',
+  toggle_voice_call: 'Alt+KeyV',
+  stop_playback: 'Escape',
+  clear_history: 'Alt+Shift+Backspace',
+  next_character: 'Alt+BracketRight',
+  previous_character: 'Alt+BracketLeft',
+  focus_input: 'Slash',
+  show_help: 'Shift+Slash',
+};
+
+/** Display order and labels for the help overlay and the settings. */
+export const HOTKEY_ACTIONS: { action: HotkeyAction; label: string }[] = [
+  { action: 'push_to_talk', label: '按住说话' },
+  { action: 'push_to_talk_stream', label: '按住说话（流式）' },
+  { action: 'toggle_voice_call', label: '开始/结束语音通话' },
+  { action: 'stop_playback', label: '停止回复' },
+  { action: 'clear_history', label: '清除历史' },
+  { action: 'next_character', label: '下一个角色' },
+  { action: 'previous_character', label: '上一个角色' },
+  { action: 'focus_input', label: '聚焦输入框' },
+  { action: 'show_help', label: '显示快捷键' },
+];
+
+/** Actions active while the key is held (keydown starts, keyup ends). */
+export const HOLD_ACTIONS: ReadonlySet<HotkeyAction> = new Set(['push_to_talk', 'push_to_talk_stream']);
+
+const MODIFIER_CODES = new Set([
+  'ControlLeft',
+  'ControlRight',
+  'ShiftLeft',
+  'ShiftRight',
+  'AltLeft',
+  'AltRight',
+  'MetaLeft',
+  'MetaRight',
+]);
+
+/** Combo for a key event; null for a lone modifier press. */
+export function comboFromEvent(event: KeyboardEvent): string | null {
+  if (!event.code || MODIFIER_CODES.has(event.code)) return null;
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  if (event.metaKey) parts.push('Meta');
+  parts.push(event.code);
+  return parts.join('+');
+}
+
+/** Key part of a combo (what the keyup of a held combo reports, whatever modifiers remain). */
+export function comboKey(combo: string): string {
+  return combo.slice(combo.lastIndexOf('+') + 1);
+}
+
+/** Combos with Ctrl/Alt/Meta also fire while typing; plain keys would eat text input. */
+export function worksWhileTyping(combo: string): boolean {
+  return /(^|\+)(Ctrl|Alt|Meta)\+/.test(combo);
+}
+
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+const keyLabels: Record<string, string> = {
+  Space: '空格',
+  Escape: 'Esc',
+  Backspace: 'Backspace',
+  Enter: 'Enter',
+  Slash: '/',
+  Backslash: '\\',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+/** Human-readable combo, e.g. "Alt+Shift+Backspace" or "Shift+/". */
+export function formatCombo(combo: string): string {
+  if (!combo) return '未设置';
+  return combo
+    .split('+')
+    .map((part) => keyLabels[part] ?? part.replace(/^Key|^Digit|^Numpad/, ''))
+    .join(' + ');
+}
+
+/** Action bound to `combo`, if any. */
+export function findAction(bindings: HotkeyBindings, combo: string): HotkeyAction | null {
+  const entry = Object.entries(bindings).find(([, bound]) => bound === combo);
+  return entry ? (entry[0] as HotkeyAction) : null;
+}
+
+/** Push-to-talk flavour a hold shortcut starts. */
+export type TalkMode = 'push-to-talk' | 'push-to-talk-stream';
+
+export interface HotkeyCommandEvents {
+  talk_start: TalkMode;
+  talk_end: void;
+  toggle_voice_call: void;
+  focus_input: void;
+}
+
+class HotkeyCommands extends TypedEmitter<HotkeyCommandEvents> {
+  talkStart(mode: TalkMode): void {
+    this.emit('talk_start', mode);
+  }
+
+  talkEnd(): void {
+    this.emit('talk_end', undefined);
+  }
+
+  toggleVoiceCall(): void {
+    this.emit('toggle_voice_call', undefined);
+  }
+
+  focusInput(): void {
+    this.emit('focus_input', undefined);
+  }
+}
+
+/** Commands for components that own the state a shortcut acts on (VoiceControls, ChatInput). */
+export const hotkeyCommands = new HotkeyCommands();
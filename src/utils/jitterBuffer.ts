@@ -0,0 +1,69 @@
+// Playback jitter buffer
+//
+// TTS chunks arrive with uneven spacing. The player holds audio until the buffer reaches a target
+// depth before starting (pre-roll), and again after it ran dry (underrun). The target starts at
+// the configured pre-roll and grows with the observed inter-arrival jitter (an RFC 3550 style
+// estimator of how much later each chunk arrives than the media time between chunks; TTS usually
+// streams faster than real time, so early arrivals count as zero).
+
+export interface JitterBufferConfig {
+  /** Minimum audio held before playback starts. */
+  preRollMs: number;
+  /** Upper bound of the adaptive target; caps the added latency. */
+  maxDepthMs: number;
+  /** Target depth in multiples of the jitter estimate. */
+  jitterFactor: number;
+}
+
+export const DEFAULT_JITTER_BUFFER_CONFIG: JitterBufferConfig = {
+  preRollMs: 120,
+  maxDepthMs: 800,
+  jitterFactor: 3,
+};
+
+/** Fade length at the edges of a gap, so a stall is a short dip instead of a click. */
+export const GAP_FADE_SECONDS = 0.008;
+
+export class JitterEstimator {
+  private config: JitterBufferConfig;
+  private jitterMs = 0;
+  private lastArrivalMs: number | null = null;
+  private lastDurationMs = 0;
+
+  constructor(config: Partial<JitterBufferConfig> = {}) {
+    this.config = { ...DEFAULT_JITTER_BUFFER_CONFIG, ...config };
+  }
+
+  configure(config: Partial<JitterBufferConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /** Smoothed inter-arrival jitter (ms). */
+  get jitter(): number {
+    return this.jitterMs;
+  }
+
+  /** Buffer depth to reach before (re)starting playback (ms). */
+  get targetMs(): number {
+    const { preRollMs, maxDepthMs, jitterFactor } = this.config;
+    return Math.min(maxDepthMs, Math.max(preRollMs, jitterFactor * this.jitterMs));
+  }
+
+  /** Record a chunk of `durationMs` audio arriving at `arrivalMs` (monotonic clock). */
+  addArrival(arrivalMs: number, durationMs: number): void {
+    if (this.lastArrivalMs !== null) {
+      const lateness = Math.max(0, arrivalMs - this.lastArrivalMs - this.lastDurationMs);
+      this.jitterMs += (lateness - this.jitterMs) / 16;
+    }
+    this.lastArrivalMs = arrivalMs;
+    this.lastDurationMs = durationMs;
+  }
+
+  /**
+   * A new stream (sentence) starts: the pause before its first chunk is synthesis time, not
+   * network jitter. The estimate itself carries over.
+   */
+  startStream(): void {
+    this.lastArrivalMs = null;
+  }
+}
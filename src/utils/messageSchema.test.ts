@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { binaryViolation, validateServerMessage } from '@/utils/messageSchema';
+
+describe('validateServerMessage', () => {
+  it('accepts a well-formed message, optional fields included or not', () => {
+    const result = validateServerMessage(
+      JSON.stringify({ type: 'response', content_cn: '你好', content_jp: 'こんにちは', emotion: 'happy' })
+    );
+    expect(result).toEqual({
+      ok: true,
+      message: { type: 'response', content_cn: '你好', content_jp: 'こんにちは', emotion: 'happy' },
+    });
+    expect(validateServerMessage('{"type":"connected","character":"anon","character_display_name":"爱音","message":"","binary_audio":true}').ok).toBe(true);
+  });
+
+  it('treats a null optional field as absent', () => {
+    expect(validateServerMessage('{"type":"voice_call_listening","message":null}').ok).toBe(true);
+  });
+
+  it.each([
+    ['not json', 'invalid_json'],
+    ['[1, 2]', 'not_object'],
+    ['null', 'not_object'],
+    ['{"text":"hi"}', 'invalid_field'],
+    ['{"type":"telepathy"}', 'unknown_type'],
+    ['{"type":"asr_end"}', 'invalid_field'],
+    ['{"type":"llm_end","elapsed_time":"1.2"}', 'invalid_field'],
+  ])('rejects %s as %s', (raw, kind) => {
+    const result = validateServerMessage(raw);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.violation.kind).toBe(kind);
+  });
+
+  it('names the message type and field that failed', () => {
+    const result = validateServerMessage('{"type":"tts_start","text":"hi","emotion":3}');
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.violation.type).toBe('tts_start');
+      expect(result.violation.detail).toBe('field "emotion" should be string, got number');
+    }
+  });
+
+  it('checks audio chunk payloads beyond field types', () => {
+    const chunk = (audio_base64: string, audio_sample_rate: number) =>
+      JSON.stringify({ type: 'audio_chunk', audio_base64, audio_format: 'pcm_s16le', audio_sample_rate });
+    expect(validateServerMessage(chunk('AAAA', 24000)).ok).toBe(true);
+    expect(validateServerMessage(chunk('AAA', 24000)).ok).toBe(false);
+    expect(validateServerMessage(chunk('AA!A', 24000)).ok).toBe(false);
+    expect(validateServerMessage(chunk('AAAA', 0)).ok).toBe(false);
+    expect(validateServerMessage(chunk('AAAA', 22050.5)).ok).toBe(false);
+  });
+
+  it('keeps only the start of an oversized frame', () => {
+    const result = validateServerMessage(`{"type":"error","message":${'1'.repeat(500)}}`);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.violation.raw).toHaveLength(200);
+  });
+});
+
+describe('binaryViolation', () => {
+  it('shows the frame size and its first bytes in hex', () => {
+    const violation = binaryViolation('too short', new Uint8Array([1, 0, 0x0a, 0xff]).buffer);
+    expect(violation).toMatchObject({ kind: 'invalid_binary', detail: 'too short', raw: '<4 bytes> 01 00 0a ff' });
+  });
+});
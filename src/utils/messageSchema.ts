@@ -0,0 +1,149 @@
+// Runtime validation of server messages
+//
+// The TypeScript unions in websocket.ts only describe what we expect; this module checks
+// what actually arrives so a malformed frame or a newer backend is reported, not swallowed.
+
+import type { ServerMessage } from '@/utils/websocket';
+
+type FieldType = 'string' | 'number' | 'boolean';
+/** Trailing '?' marks an optional field. */
+type FieldSpec = FieldType | `${FieldType}?`;
+
+/** Field specs per message type; keep in sync with the ServerMessage interfaces. */
+const serverMessageSchemas: { [K in ServerMessage['type']]: Record<string, FieldSpec> } = {
+  connected: {
+    character: 'string',
+    character_display_name: 'string',
+    message: 'string',
+    binary_audio: 'boolean?',
+    upload_audio_format: 'string?',
+  },
+  disconnected: { reason: 'string', message: 'string' },
+  thinking: { message: 'string' },
+  asr_start: {},
+  asr_end: { text: 'string' },
+  llm_start: {},
+  llm_end: { elapsed_time: 'number' },
+  tts_start: { text: 'string', emotion: 'string' },
+  transcription: { text: 'string', is_partial: 'boolean' },
+  audio_chunk: { audio_base64: 'string', audio_format: 'string', audio_sample_rate: 'number' },
+  audio_end: {},
+  response: {
+    content_cn: 'string',
+    content_jp: 'string',
+    emotion: 'string',
+    audio_format: 'string?',
+    audio_sample_rate: 'number?',
+  },
+  turn_end: {},
+  audio_stream_started: { message: 'string' },
+  voice_call_listening: { message: 'string?' },
+  character_switched: { character: 'string', character_display_name: 'string', message: 'string' },
+  history_cleared: { message: 'string' },
+  pong: {},
+  error: { message: 'string' },
+};
+
+export type ProtocolViolationKind =
+  | 'invalid_json'
+  | 'not_object'
+  | 'unknown_type'
+  | 'invalid_field'
+  | 'invalid_binary';
+
+export interface ProtocolViolation {
+  kind: ProtocolViolationKind;
+  /** Message type when it could be read. */
+  type?: string;
+  detail: string;
+  /** Start of the offending frame, for the diagnostics log. */
+  raw: string;
+  /** Epoch ms */
+  at: number;
+}
+
+export type ValidationResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; violation: ProtocolViolation };
+
+const RAW_PREVIEW_LENGTH = 200;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+function fail(kind: ProtocolViolationKind, detail: string, raw: string, type?: string): ValidationResult {
+  return {
+    ok: false,
+    violation: { kind, type, detail, raw: raw.slice(0, RAW_PREVIEW_LENGTH), at: Date.now() },
+  };
+}
+
+function isKnownType(type: string): type is ServerMessage['type'] {
+  return Object.prototype.hasOwnProperty.call(serverMessageSchemas, type);
+}
+
+/** Checks beyond field types for messages whose payload feeds the audio pipeline. */
+function checkSemantics(message: ServerMessage): string | null {
+  if (message.type === 'audio_chunk') {
+    if (message.audio_base64.length % 4 !== 0 || !BASE64_PATTERN.test(message.audio_base64)) {
+      return 'audio_base64 is not valid base64';
+    }
+    if (!Number.isInteger(message.audio_sample_rate) || message.audio_sample_rate <= 0) {
+      return `audio_sample_rate must be a positive integer, got ${message.audio_sample_rate}`;
+    }
+  }
+  return null;
+}
+
+/** Violation for a binary frame; `raw` shows the header bytes in hex. */
+export function binaryViolation(detail: string, data: ArrayBuffer): ProtocolViolation {
+  const header = Array.from(new Uint8Array(data, 0, Math.min(16, data.byteLength)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join(' ');
+  return { kind: 'invalid_binary', detail, raw: `<${data.byteLength} bytes> ${header}`, at: Date.now() };
+}
+
+/**
+ * Parse and validate one text frame against the ServerMessage schemas.
+ */
+export function validateServerMessage(raw: string): ValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return fail('invalid_json', 'frame is not valid JSON', raw);
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return fail('not_object', 'frame is not a JSON object', raw);
+  }
+
+  const record = data as Record<string, unknown>;
+  if (typeof record.type !== 'string') {
+    return fail('invalid_field', 'missing string field "type"', raw);
+  }
+
+  const type = record.type;
+  if (!isKnownType(type)) {
+    return fail('unknown_type', `unknown message type "${type}"`, raw, type);
+  }
+
+  for (const [field, spec] of Object.entries(serverMessageSchemas[type])) {
+    const optional = spec.endsWith('?');
+    const expected = optional ? spec.slice(0, -1) : spec;
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      return fail('invalid_field', `missing field "${field}"`, raw, type);
+    }
+    if (typeof value !== expected) {
+      return fail('invalid_field', `field "${field}" should be ${expected}, got ${typeof value}`, raw, type);
+    }
+  }
+
+  const message = record as unknown as ServerMessage;
+  const semanticError = checkSemantics(message);
+  if (semanticError) {
+    return fail('invalid_field', semanticError, raw, type);
+  }
+
+  return { ok: true, message };
+}
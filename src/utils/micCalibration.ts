@@ -0,0 +1,90 @@
+// Microphone level calibration
+//
+// The setup wizard records a short sample of the user speaking. From its level distribution we
+// derive an input gain (speech lands near TARGET_SPEECH_RMS) and a VAD energy threshold between
+// the noise floor and the speech level; useAudioRecorder applies both.
+
+export interface MicCalibration {
+  /** Linear gain applied to the microphone before capture. */
+  inputGain: number;
+  /** VAD energy threshold for the gained signal (see VadConfig.energyThreshold). */
+  energyThreshold: number;
+  /** Epoch ms */
+  calibratedAt: number;
+}
+
+export type MicLevelVerdict = 'ok' | 'no_signal' | 'too_low' | 'clipping' | 'noisy';
+
+export interface MicLevelAnalysis {
+  /** Largest absolute sample. */
+  peak: number;
+  /** Fraction of samples at full scale. */
+  clippedRatio: number;
+  /** Frame RMS of the quiet parts (10th percentile) and of speech (90th percentile). */
+  noiseRms: number;
+  speechRms: number;
+  verdict: MicLevelVerdict;
+}
+
+export const CALIBRATION_SAMPLE_SECONDS = 3;
+const FRAME_MS = 20;
+const TARGET_SPEECH_RMS = 0.1;
+const MIN_GAIN = 0.5;
+const MAX_GAIN = 4;
+const CLIP_LEVEL = 0.99;
+/** More clipped samples than this is audible distortion. */
+const MAX_CLIPPED_RATIO = 0.001;
+const NO_SIGNAL_RMS = 0.003;
+const LOW_SPEECH_RMS = 0.02;
+/** Speech should be at least this many times the noise floor for the VAD to separate them. */
+const MIN_SPEECH_TO_NOISE = 3;
+
+function percentileOf(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+export function analyzeMicSample(samples: Float32Array, sampleRate: number): MicLevelAnalysis {
+  const frameLength = Math.max(1, Math.round((FRAME_MS / 1000) * sampleRate));
+  const frameRms: number[] = [];
+  let peak = 0;
+  let clipped = 0;
+  for (let start = 0; start < samples.length; start += frameLength) {
+    const end = Math.min(samples.length, start + frameLength);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const magnitude = Math.abs(samples[i]);
+      peak = Math.max(peak, magnitude);
+      if (magnitude >= CLIP_LEVEL) clipped++;
+      sum += samples[i] * samples[i];
+    }
+    frameRms.push(Math.sqrt(sum / (end - start)));
+  }
+  frameRms.sort((a, b) => a - b);
+  const noiseRms = percentileOf(frameRms, 0.1);
+  const speechRms = percentileOf(frameRms, 0.9);
+  const clippedRatio = samples.length > 0 ? clipped / samples.length : 0;
+
+  let verdict: MicLevelVerdict = 'ok';
+  if (speechRms < NO_SIGNAL_RMS) verdict = 'no_signal';
+  else if (clippedRatio > MAX_CLIPPED_RATIO) verdict = 'clipping';
+  else if (speechRms < LOW_SPEECH_RMS) verdict = 'too_low';
+  else if (speechRms < noiseRms * MIN_SPEECH_TO_NOISE) verdict = 'noisy';
+
+  return { peak, clippedRatio, noiseRms, speechRms, verdict };
+}
+
+/** Calibration for an analysed sample; null when there was nothing to calibrate against. */
+export function calibrationFromAnalysis(analysis: MicLevelAnalysis): MicCalibration | null {
+  if (analysis.verdict === 'no_signal') return null;
+  let inputGain = Math.min(MAX_GAIN, Math.max(MIN_GAIN, TARGET_SPEECH_RMS / analysis.speechRms));
+  // Boosting an already clipping input only makes it worse
+  if (analysis.verdict === 'clipping') inputGain = Math.min(inputGain, 1);
+  // Geometric mean: halfway between noise floor and speech on a log scale
+  const threshold = Math.sqrt(Math.max(analysis.noiseRms, 1e-4) * analysis.speechRms) * inputGain;
+  return {
+    inputGain: Math.round(inputGain * 100) / 100,
+    energyThreshold: Math.round(Math.min(0.1, Math.max(0.005, threshold)) * 1000) / 1000,
+    calibratedAt: Date.now(),
+  };
+}
@@ -0,0 +1,54 @@
+import { createDecoder } from 'libopus-wasm';
+import { describe, expect, it } from 'vitest';
+import {
+  createOpusStreamEncoder,
+  encodeOpus,
+  isOpusEncodingSupported,
+  unpackOpusPackets,
+} from '@/utils/opusEncoder';
+
+const SAMPLE_RATE = 16000;
+/** Samples in one 20 ms packet. */
+const FRAME = 320;
+
+function tone(length: number): Int16Array {
+  return Int16Array.from({ length }, (_, i) => Math.round(8000 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE)));
+}
+
+// Node has no WebCodecs, so these run on the WASM fallback
+describe('opus encoding without WebCodecs', () => {
+  it('is offered through the WASM encoder', async () => {
+    expect(typeof AudioEncoder).toBe('undefined');
+    expect(await isOpusEncodingSupported(SAMPLE_RATE)).toBe(true);
+    expect(await isOpusEncodingSupported(44100)).toBe(false);
+  });
+
+  it('encodes a recording into decodable 20 ms packets, padding the last one', async () => {
+    const packets = unpackOpusPackets(await encodeOpus(tone(FRAME * 2 + 100), SAMPLE_RATE));
+    expect(packets).toHaveLength(3);
+
+    const decoder = await createDecoder({ sampleRate: SAMPLE_RATE, channels: 1 });
+    try {
+      for (const packet of packets) expect(decoder.decode(packet)).toHaveLength(FRAME);
+    } finally {
+      decoder.free();
+    }
+  });
+
+  it('streams packets across chunk boundaries and emits nothing after close', async () => {
+    await isOpusEncodingSupported(SAMPLE_RATE);
+    const packets: Uint8Array[] = [];
+    const encoder = createOpusStreamEncoder(SAMPLE_RATE, (packet) => packets.push(packet));
+
+    // 100 ms chunks, as the recorder sends them
+    encoder.encode(tone(1600));
+    encoder.encode(tone(1600));
+    await encoder.flush();
+    expect(packets).toHaveLength(10);
+
+    encoder.close();
+    encoder.encode(tone(1600));
+    await encoder.flush();
+    expect(packets).toHaveLength(10);
+  });
+});
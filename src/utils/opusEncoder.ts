@@ -0,0 +1,307 @@
+// Opus encoding for outgoing microphone audio
+//
+// Uses the WebCodecs AudioEncoder, or libopus compiled to WASM (libopus-wasm, loaded on demand)
+// where WebCodecs cannot encode Opus. An `opus` payload on the wire is a run of raw Opus packets,
+// each prefixed with its byte length (u16 little-endian), so one message or binary frame can
+// carry any number of packets. Browsers with neither keep sending PCM.
+
+import type { OpusEncoderHandle, SampleRate } from 'libopus-wasm';
+
+const OPUS_BITRATE = 24000;
+/** 20 ms packets: the usual VoIP trade-off between latency and overhead. */
+const OPUS_FRAME_DURATION_US = 20000;
+
+function encoderConfig(sampleRate: number): AudioEncoderConfig {
+  return {
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels: 1,
+    bitrate: OPUS_BITRATE,
+    opus: { frameDuration: OPUS_FRAME_DURATION_US },
+  };
+}
+
+/** Rates libopus encodes natively. */
+const WASM_SAMPLE_RATES: readonly number[] = [8000, 12000, 16000, 24000, 48000];
+
+type OpusBackend = 'webcodecs' | 'wasm';
+
+type Libopus = typeof import('libopus-wasm');
+let libopus: Promise<Libopus> | null = null;
+
+/** The WASM build of libopus; fetched (as its own chunk) the first time it is needed. */
+function loadLibopus(): Promise<Libopus> {
+  if (!libopus) {
+    libopus = import('libopus-wasm').then(async (module) => {
+      await module.loadLibopus();
+      return module;
+    });
+    // A failed fetch may be retried later
+    libopus.catch(() => {
+      libopus = null;
+    });
+  }
+  return libopus;
+}
+
+function isWebCodecsOpusSupported(sampleRate: number): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return Promise.resolve(false);
+  // Inside then() so a synchronous throw (invalid config on some browsers) also means "no"
+  return Promise.resolve()
+    .then(() => AudioEncoder.isConfigSupported(encoderConfig(sampleRate)))
+    .then((result) => result.supported === true)
+    .catch(() => false);
+}
+
+const backendCache = new Map<number, Promise<OpusBackend | null>>();
+/** Settled entries of backendCache, so encoders can be created synchronously. */
+const settledBackends = new Map<number, OpusBackend | null>();
+
+/** How this browser encodes mono Opus at `sampleRate`, or null when it cannot (cached per rate). */
+function opusBackend(sampleRate: number): Promise<OpusBackend | null> {
+  let backend = backendCache.get(sampleRate);
+  if (!backend) {
+    backend = isWebCodecsOpusSupported(sampleRate)
+      .then(async (supported): Promise<OpusBackend | null> => {
+        if (supported) return 'webcodecs';
+        if (typeof WebAssembly === 'undefined' || !WASM_SAMPLE_RATES.includes(sampleRate)) return null;
+        // Loaded here so "supported" also means the encoder is ready to start
+        return loadLibopus().then(
+          () => 'wasm' as const,
+          (error) => {
+            console.warn('WASM Opus encoder unavailable:', error);
+            return null;
+          }
+        );
+      })
+      .then((result) => {
+        settledBackends.set(sampleRate, result);
+        return result;
+      });
+    backendCache.set(sampleRate, backend);
+  }
+  return backend;
+}
+
+/** Whether this browser can encode mono Opus at `sampleRate` (WebCodecs or WASM; cached per rate). */
+export function isOpusEncodingSupported(sampleRate: number): Promise<boolean> {
+  return opusBackend(sampleRate).then((backend) => backend !== null);
+}
+
+/** Join packets into the length-prefixed `opus` payload. */
+export function packOpusPackets(packets: Uint8Array[]): Uint8Array {
+  const total = packets.reduce((sum, packet) => sum + 2 + packet.byteLength, 0);
+  const payload = new Uint8Array(total);
+  const view = new DataView(payload.buffer);
+  let offset = 0;
+  for (const packet of packets) {
+    view.setUint16(offset, packet.byteLength, true);
+    payload.set(packet, offset + 2);
+    offset += 2 + packet.byteLength;
+  }
+  return payload;
+}
+
+/** Split a length-prefixed `opus` payload back into packets; throws on a truncated payload. */
+export function unpackOpusPackets(payload: Uint8Array): Uint8Array[] {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const packets: Uint8Array[] = [];
+  let offset = 0;
+  while (offset < payload.byteLength) {
+    if (offset + 2 > payload.byteLength) throw new Error('Truncated opus packet length');
+    const length = view.getUint16(offset, true);
+    if (offset + 2 + length > payload.byteLength) throw new Error('Truncated opus packet');
+    packets.push(payload.subarray(offset + 2, offset + 2 + length));
+    offset += 2 + length;
+  }
+  return packets;
+}
+
+/** Streaming encoder: feed 16-bit PCM frames, receive Opus packets as they are produced. */
+export interface OpusStreamEncoder {
+  encode(pcm: Int16Array): void;
+  /** Emit packets for everything submitted so far. */
+  flush(): Promise<void>;
+  close(): void;
+}
+
+type PacketCallback = (packet: Uint8Array) => void;
+type ErrorCallback = (error: Error) => void;
+
+const logEncoderError: ErrorCallback = (error) => console.error('Opus encoder failed:', error);
+
+class WebCodecsOpusEncoder implements OpusStreamEncoder {
+  private readonly encoder: AudioEncoder;
+  /** Microseconds of audio submitted so far (AudioData timestamps). */
+  private timestampUs = 0;
+
+  constructor(
+    private readonly sampleRate: number,
+    onPacket: PacketCallback,
+    onError: ErrorCallback
+  ) {
+    this.encoder = new AudioEncoder({
+      output: (chunk) => {
+        const packet = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(packet);
+        onPacket(packet);
+      },
+      error: onError,
+    });
+    this.encoder.configure(encoderConfig(sampleRate));
+  }
+
+  encode(pcm: Int16Array): void {
+    if (this.encoder.state !== 'configured' || pcm.length === 0) return;
+    const data = new AudioData({
+      format: 's16',
+      sampleRate: this.sampleRate,
+      numberOfFrames: pcm.length,
+      numberOfChannels: 1,
+      timestamp: this.timestampUs,
+      data: pcm,
+    });
+    this.timestampUs += (pcm.length / this.sampleRate) * 1_000_000;
+    this.encoder.encode(data);
+    data.close();
+  }
+
+  async flush(): Promise<void> {
+    if (this.encoder.state === 'configured') {
+      await this.encoder.flush();
+    }
+  }
+
+  close(): void {
+    if (this.encoder.state !== 'closed') {
+      this.encoder.close();
+    }
+  }
+}
+
+/**
+ * libopus encodes whole frames only: input is cut into 20 ms frames and the last, partial one is
+ * padded with silence on flush. Work runs in order behind the (asynchronous) encoder creation.
+ */
+class WasmOpusEncoder implements OpusStreamEncoder {
+  private readonly frameSamples: number;
+  private readonly handle: Promise<OpusEncoderHandle>;
+  private work: Promise<void> = Promise.resolve();
+  /** Samples of the frame being filled. */
+  private pending: Int16Array;
+  private pendingLength = 0;
+  /** Closed by the caller or after an error, like a WebCodecs encoder. */
+  private closed = false;
+
+  constructor(
+    sampleRate: number,
+    private readonly onPacket: PacketCallback,
+    private readonly onError: ErrorCallback
+  ) {
+    this.frameSamples = (sampleRate * OPUS_FRAME_DURATION_US) / 1_000_000;
+    this.pending = new Int16Array(this.frameSamples);
+    this.handle = loadLibopus().then(({ createEncoder, Application }) =>
+      createEncoder({
+        sampleRate: sampleRate as SampleRate,
+        channels: 1,
+        application: Application.Voip,
+        bitrate: OPUS_BITRATE,
+        frameSize: this.frameSamples,
+      })
+    );
+    // Freed by close(); an encoder that never got created has nothing to free
+    this.handle.catch(() => {});
+  }
+
+  encode(pcm: Int16Array): void {
+    if (this.closed || pcm.length === 0) return;
+    this.enqueue((encoder) => {
+      let offset = 0;
+      while (offset < pcm.length) {
+        const take = Math.min(pcm.length - offset, this.frameSamples - this.pendingLength);
+        this.pending.set(pcm.subarray(offset, offset + take), this.pendingLength);
+        this.pendingLength += take;
+        offset += take;
+        if (this.pendingLength === this.frameSamples) this.encodePending(encoder);
+      }
+    });
+  }
+
+  flush(): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    this.enqueue((encoder) => {
+      if (this.pendingLength === 0) return;
+      this.pending.fill(0, this.pendingLength);
+      this.encodePending(encoder);
+    });
+    return this.work;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.work = this.work.then(() => this.handle).then(
+      (encoder) => encoder.free(),
+      () => {}
+    );
+  }
+
+  private encodePending(encoder: OpusEncoderHandle): void {
+    this.pendingLength = 0;
+    this.onPacket(encoder.encode(this.pending));
+  }
+
+  private enqueue(step: (encoder: OpusEncoderHandle) => void): void {
+    this.work = this.work
+      .then(() => this.handle)
+      .then((encoder) => {
+        if (!this.closed) step(encoder);
+      })
+      .catch((error: unknown) => {
+        if (this.closed) return;
+        this.close();
+        this.onError(error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+}
+
+/**
+ * A streaming encoder for `sampleRate`, on WebCodecs or WASM; throws unless
+ * isOpusEncodingSupported(sampleRate) has resolved true.
+ */
+export function createOpusStreamEncoder(
+  sampleRate: number,
+  onPacket: PacketCallback,
+  onError: ErrorCallback = logEncoderError
+): OpusStreamEncoder {
+  switch (settledBackends.get(sampleRate)) {
+    case 'webcodecs':
+      return new WebCodecsOpusEncoder(sampleRate, onPacket, onError);
+    case 'wasm':
+      return new WasmOpusEncoder(sampleRate, onPacket, onError);
+    default:
+      throw new Error(`No Opus encoder for ${sampleRate} Hz`);
+  }
+}
+
+/** Encode a whole recording into one `opus` payload. */
+export async function encodeOpus(pcm: Int16Array, sampleRate: number): Promise<Uint8Array> {
+  await opusBackend(sampleRate);
+  const packets: Uint8Array[] = [];
+  let failure: Error | null = null;
+  const encoder = createOpusStreamEncoder(
+    sampleRate,
+    (packet) => packets.push(packet),
+    (error) => {
+      failure = error;
+    }
+  );
+  try {
+    encoder.encode(pcm);
+    await encoder.flush();
+  } finally {
+    encoder.close();
+  }
+  if (failure) throw failure;
+  return packOpusPackets(packets);
+}
@@ -0,0 +1,42 @@
+// Playback commands
+//
+// Controls in the UI talk to the reply player (useAudioPlayer, which owns the audio graph)
+// through this shared instance; the player mirrors the resulting state into the store.
+
+import { TypedEmitter } from '@/utils/emitter';
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2] as const;
+
+export interface PlaybackCommandEvents {
+  pause: void;
+  resume: void;
+  /** Drop the rest of the sentence being spoken and continue with the next one. */
+  skip: void;
+  /** Play the current (or last) reply again from its beginning. */
+  replay: void;
+  rate: number;
+}
+
+class PlaybackControl extends TypedEmitter<PlaybackCommandEvents> {
+  pause(): void {
+    this.emit('pause', undefined);
+  }
+
+  resume(): void {
+    this.emit('resume', undefined);
+  }
+
+  skip(): void {
+    this.emit('skip', undefined);
+  }
+
+  replay(): void {
+    this.emit('replay', undefined);
+  }
+
+  setRate(rate: number): void {
+    this.emit('rate', rate);
+  }
+}
+
+export const playbackControl = new PlaybackControl();
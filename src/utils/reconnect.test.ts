@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeBackoffDelay, DEFAULT_BACKOFF_POLICY, ReconnectManager, type BackoffPolicy } from '@/utils/reconnect';
+
+const fixed: BackoffPolicy = { baseDelayMs: 1000, maxDelayMs: 8000, factor: 2, jitter: 0, maxAttempts: 3 };
+
+describe('computeBackoffDelay', () => {
+  it('grows exponentially up to the cap', () => {
+    expect([1, 2, 3, 4, 5].map((attempt) => computeBackoffDelay(attempt, fixed))).toEqual([1000, 2000, 4000, 8000, 8000]);
+  });
+
+  it('takes up to the jitter fraction off the delay', () => {
+    const policy = { ...fixed, jitter: 0.3 };
+    expect(computeBackoffDelay(2, policy, () => 0)).toBe(2000);
+    expect(computeBackoffDelay(2, policy, () => 1)).toBe(1400);
+    expect(computeBackoffDelay(2, { ...policy, jitter: 5 }, () => 1)).toBe(0);
+  });
+
+  it('keeps the default policy within its bounds', () => {
+    for (let attempt = 1; attempt <= DEFAULT_BACKOFF_POLICY.maxAttempts; attempt++) {
+      const delay = computeBackoffDelay(attempt, DEFAULT_BACKOFF_POLICY);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(DEFAULT_BACKOFF_POLICY.maxDelayMs);
+    }
+  });
+});
+
+describe('ReconnectManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs each attempt after its backoff delay', () => {
+    const onAttempt = vi.fn();
+    const manager = new ReconnectManager(onAttempt, fixed);
+
+    expect(manager.schedule()).toMatchObject({ attempt: 1, maxAttempts: 3, delayMs: 1000, at: Date.now() + 1000 });
+    vi.advanceTimersByTime(999);
+    expect(onAttempt).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onAttempt).toHaveBeenCalledTimes(1);
+    expect(manager.attempt).toBe(1);
+    expect(manager.isScheduled).toBe(false);
+    expect(manager.isActive).toBe(true);
+
+    expect(manager.schedule()).toMatchObject({ attempt: 2, delayMs: 2000 });
+    vi.advanceTimersByTime(2000);
+    expect(onAttempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up once the attempt budget is spent', () => {
+    const onAttempt = vi.fn();
+    const manager = new ReconnectManager(onAttempt, fixed);
+    for (let i = 0; i < fixed.maxAttempts; i++) {
+      manager.schedule();
+      vi.runOnlyPendingTimers();
+    }
+    expect(onAttempt).toHaveBeenCalledTimes(3);
+    expect(manager.schedule()).toBeNull();
+    expect(manager.isScheduled).toBe(false);
+  });
+
+  it('replaces a pending attempt instead of stacking another', () => {
+    const onAttempt = vi.fn();
+    const manager = new ReconnectManager(onAttempt, fixed);
+    manager.schedule();
+    manager.schedule();
+    vi.advanceTimersByTime(10000);
+    expect(onAttempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancel keeps the count; reset starts over from attempt 1', () => {
+    const onAttempt = vi.fn();
+    const manager = new ReconnectManager(onAttempt, fixed);
+    manager.schedule();
+    vi.runOnlyPendingTimers();
+    manager.schedule();
+    manager.cancel();
+    vi.advanceTimersByTime(10000);
+    expect(onAttempt).toHaveBeenCalledTimes(1);
+    expect(manager.schedule()).toMatchObject({ attempt: 2 });
+
+    manager.reset();
+    expect(manager.isActive).toBe(false);
+    expect(manager.schedule()).toMatchObject({ attempt: 1, delayMs: 1000 });
+  });
+
+  it('never reconnects with a budget of zero', () => {
+    const manager = new ReconnectManager(vi.fn(), { ...fixed, maxAttempts: 0 });
+    expect(manager.schedule()).toBeNull();
+  });
+});
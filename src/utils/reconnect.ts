@@ -0,0 +1,105 @@
+// Reconnection scheduling with jittered exponential backoff
+
+export interface BackoffPolicy {
+  /** Delay before the first attempt. */
+  baseDelayMs: number;
+  /** Upper bound for a single delay (before jitter). */
+  maxDelayMs: number;
+  /** Growth per attempt. */
+  factor: number;
+  /** Fraction of the delay that is randomized (0 = fixed, 1 = anywhere in [0, delay]). */
+  jitter: number;
+  /** Give up after this many attempts; 0 disables reconnecting. */
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  factor: 2,
+  jitter: 0.3,
+  maxAttempts: 8,
+};
+
+export interface ReconnectSchedule {
+  /** 1-based attempt number that will run at `at`. */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  /** Epoch ms of the attempt, for countdowns. */
+  at: number;
+}
+
+/**
+ * Delay for the given 1-based attempt. Jitter spreads clients out so a restarted server
+ * is not hit by every tab at the same moment.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: BackoffPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * Math.pow(policy.factor, Math.max(0, attempt - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(capped * (1 - jitter * random()));
+}
+
+/**
+ * Runs `onAttempt` after backoff delays until `reset()` (success) or the attempt budget is spent.
+ */
+export class ReconnectManager {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+
+  constructor(
+    private readonly onAttempt: () => void,
+    private readonly policy: BackoffPolicy = DEFAULT_BACKOFF_POLICY
+  ) {}
+
+  /** Attempts made in the current cycle. */
+  get attempt(): number {
+    return this.attempts;
+  }
+
+  get isScheduled(): boolean {
+    return this.timer !== null;
+  }
+
+  /** True while a reconnect cycle is in progress (scheduled or an attempt is connecting). */
+  get isActive(): boolean {
+    return this.attempts > 0 || this.timer !== null;
+  }
+
+  /**
+   * Schedule the next attempt. Returns null when the attempt budget is exhausted.
+   */
+  schedule(): ReconnectSchedule | null {
+    this.cancel();
+    if (this.attempts >= this.policy.maxAttempts) {
+      return null;
+    }
+    const attempt = this.attempts + 1;
+    const delayMs = computeBackoffDelay(attempt, this.policy);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.attempts = attempt;
+      this.onAttempt();
+    }, delayMs);
+    return { attempt, maxAttempts: this.policy.maxAttempts, delayMs, at: Date.now() + delayMs };
+  }
+
+  /** Cancel a pending attempt but keep the attempt count. */
+  cancel(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Connection succeeded or the user took over: stop and start the next cycle from attempt 1. */
+  reset(): void {
+    this.cancel();
+    this.attempts = 0;
+  }
+}
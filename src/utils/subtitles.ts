@@ -0,0 +1,74 @@
+/** Which lines the stage subtitles show: the character's reply, the user's recognized speech, or both. */
+export type SubtitleSource = 'reply' | 'user' | 'both';
+/** Languages of a reply line: `content_cn`, `content_jp` or both. */
+export type SubtitleLanguage = 'cn' | 'jp' | 'both';
+/** Bilingual layout: two lines (either language on top) or one line joined by a separator. */
+export type SubtitleLayout = 'cn_first' | 'jp_first' | 'inline';
+export type SubtitlePosition = 'top' | 'bottom';
+export type SubtitleFont = 'sans' | 'serif' | 'rounded';
+
+export interface SubtitleConfig {
+  enabled: boolean;
+  source: SubtitleSource;
+  language: SubtitleLanguage;
+  layout: SubtitleLayout;
+  position: SubtitlePosition;
+  font: SubtitleFont;
+  /** Size of the main line in px; the second language is drawn smaller. */
+  fontSize: number;
+  /** Fade in/out duration. */
+  fadeMs: number;
+  /** How long a line stays after its audio ends (reply) or after it is recognized (user). */
+  holdMs: number;
+}
+
+export const DEFAULT_SUBTITLE_CONFIG: SubtitleConfig = {
+  enabled: false,
+  source: 'reply',
+  language: 'both',
+  layout: 'cn_first',
+  position: 'bottom',
+  font: 'sans',
+  fontSize: 22,
+  fadeMs: 250,
+  holdMs: 1500,
+};
+
+export const SUBTITLE_FONTS: Record<SubtitleFont, string> = {
+  sans: 'system-ui, "PingFang SC", "Hiragino Sans", "Noto Sans SC", "Noto Sans JP", sans-serif',
+  serif: '"Songti SC", "Noto Serif SC", "Hiragino Mincho ProN", "Noto Serif JP", serif',
+  rounded: '"Yuanti SC", "Hiragino Maru Gothic ProN", "M PLUS Rounded 1c", system-ui, sans-serif',
+};
+
+/** Choices shown in the subtitle settings, with their labels. */
+export const SUBTITLE_OPTIONS = {
+  source: [
+    { value: 'reply', label: '角色' },
+    { value: 'user', label: '我的语音' },
+    { value: 'both', label: '全部' },
+  ],
+  language: [
+    { value: 'cn', label: '中文' },
+    { value: 'jp', label: '日文' },
+    { value: 'both', label: '双语' },
+  ],
+  layout: [
+    { value: 'cn_first', label: '中上日下' },
+    { value: 'jp_first', label: '日上中下' },
+    { value: 'inline', label: '同一行' },
+  ],
+  position: [
+    { value: 'bottom', label: '底部' },
+    { value: 'top', label: '顶部' },
+  ],
+  font: [
+    { value: 'sans', label: '黑体' },
+    { value: 'serif', label: '宋体' },
+    { value: 'rounded', label: '圆体' },
+  ],
+} satisfies { [K in keyof SubtitleConfig]?: { value: SubtitleConfig[K]; label: string }[] };
+
+/** A user line has no audio to follow: keep it up long enough to read, plus the hold time. */
+export function userLineDurationMs(text: string, holdMs: number): number {
+  return Math.max(2000, text.length * 120) + holdMs;
+}
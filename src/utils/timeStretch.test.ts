@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { timeStretch } from '@/utils/timeStretch';
+
+const SAMPLE_RATE = 24000;
+
+function sine(frequency: number, seconds: number): Float32Array {
+  return Float32Array.from({ length: SAMPLE_RATE * seconds }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+}
+
+/** Frequency from upward zero crossings, ignoring the edges. */
+function frequencyOf(samples: Float32Array): number {
+  const edge = 1000;
+  let crossings = 0;
+  for (let i = edge; i < samples.length - edge; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+  }
+  return crossings / ((samples.length - 2 * edge) / SAMPLE_RATE);
+}
+
+describe('timeStretch', () => {
+  it.each([0.75, 1.25, 1.5, 2])('plays %s× as fast at the same pitch', (rate) => {
+    const stretched = timeStretch(sine(220, 1), SAMPLE_RATE, rate);
+    expect(stretched.length).toBe(Math.round(SAMPLE_RATE / rate));
+    expect(frequencyOf(stretched)).toBeCloseTo(220, -1);
+  });
+
+  it('passes audio through at normal speed and when shorter than a frame', () => {
+    const samples = sine(220, 1);
+    expect(timeStretch(samples, SAMPLE_RATE, 1)).toBe(samples);
+    const short = samples.subarray(0, 100);
+    expect(timeStretch(short, SAMPLE_RATE, 2)).toBe(short);
+  });
+});
@@ -0,0 +1,57 @@
+// Pitch-preserving time stretch
+//
+// Changing an AudioBufferSourceNode's playbackRate resamples: faster speech also sounds higher.
+// Instead, reply audio played at another speed is rendered with WSOLA (waveform-similarity
+// overlap-add): Hann-windowed frames are taken from the input every `rate` × hop and laid down
+// every hop; each frame is shifted within a small window to where it best continues the previous
+// one, so the waveform stays periodic and the pitch is kept.
+
+const FRAME_SECONDS = 0.03;
+/** How far a frame may move from its nominal input position to line up with the previous one. */
+const SEEK_SECONDS = 0.008;
+
+/** Mono samples played `rate` times as fast at the same pitch (length ≈ samples.length / rate). */
+export function timeStretch(samples: Float32Array, sampleRate: number, rate: number): Float32Array {
+  const frame = Math.round(sampleRate * FRAME_SECONDS);
+  if (rate === 1 || samples.length < frame) return samples;
+  const hop = Math.floor(frame / 2);
+  const seek = Math.round(sampleRate * SEEK_SECONDS);
+  const outputLength = Math.round(samples.length / rate);
+  const lastStart = samples.length - frame;
+
+  const taper = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) taper[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+
+  const output = new Float32Array(outputLength + frame);
+  const weight = new Float32Array(outputLength + frame);
+  let previous = 0;
+  for (let out = 0; out < outputLength; out += hop) {
+    const nominal = Math.min(Math.round(out * rate), lastStart);
+    let start = nominal;
+    if (out > 0) {
+      // Where the previous frame would naturally continue; pick the candidate most like it
+      const natural = Math.min(previous + hop, lastStart);
+      let best = -Infinity;
+      for (let candidate = Math.max(0, nominal - seek); candidate <= Math.min(lastStart, nominal + seek); candidate++) {
+        let score = 0;
+        // Compare the overlapping half with every other sample; enough to find the phase
+        for (let i = 0; i < hop; i += 2) score += samples[natural + i] * samples[candidate + i];
+        if (score > best) {
+          best = score;
+          start = candidate;
+        }
+      }
+    }
+    for (let i = 0; i < frame; i++) {
+      output[out + i] += samples[start + i] * taper[i];
+      weight[out + i] += taper[i];
+    }
+    previous = start;
+  }
+
+  const stretched = output.subarray(0, outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    if (weight[i] > 1e-6) stretched[i] /= weight[i];
+  }
+  return stretched;
+}
@@ -0,0 +1,262 @@
+// Conversation Export / Import
+
+import type { ChatMessage, ChatSession, MessageSegment } from '@/stores/chatStore';
+
+export const TRANSCRIPT_FORMAT = 'chat-anon-transcript';
+/** v2: messages carry the full ChatMessage shape (segments, turn and delivery metadata). */
+export const TRANSCRIPT_VERSION = 2;
+
+/** Reading speed used to time subtitle cues when the next message does not bound them (ms per character). */
+const SRT_MS_PER_CHAR = 250;
+const SRT_MIN_CUE_MS = 1500;
+const SRT_MAX_CUE_MS = 10000;
+
+/** A ChatMessage with its timestamp as ISO 8601. */
+export interface TranscriptMessage extends Omit<ChatMessage, 'timestamp'> {
+  /** ISO 8601 */
+  timestamp: string;
+}
+
+export interface TranscriptFile {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  /** ISO 8601 */
+  exportedAt: string;
+  session: {
+    title: string;
+    character: string;
+    characterDisplayName: string;
+    live2dModelSet?: string;
+    /** ISO 8601 */
+    createdAt: string;
+  };
+  messages: TranscriptMessage[];
+}
+
+/** Thrown by parseTranscript when the file is not a valid transcript; message is shown to the user. */
+export class TranscriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptError';
+  }
+}
+
+export interface TranscriptSource {
+  session: Pick<ChatSession, 'title' | 'character' | 'live2dModelSet' | 'createdAt'>;
+  characterDisplayName: string;
+  messages: ChatMessage[];
+}
+
+export function toTranscriptJson({ session, characterDisplayName, messages }: TranscriptSource): string {
+  const file: TranscriptFile = {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      title: session.title,
+      character: session.character,
+      characterDisplayName,
+      live2dModelSet: session.live2dModelSet,
+      createdAt: new Date(session.createdAt).toISOString(),
+    },
+    messages: messages.map((m) => ({ ...m, timestamp: m.timestamp.toISOString() })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function toTranscriptMarkdown({ session, characterDisplayName, messages }: TranscriptSource): string {
+  const lines: string[] = [
+    `# ${session.title || `与 ${characterDisplayName} 的对话`}`,
+    '',
+    `- 角色: ${characterDisplayName}`,
+    `- 开始时间: ${new Date(session.createdAt).toLocaleString('zh-CN')}`,
+    `- 消息数: ${messages.length}`,
+    '',
+  ];
+
+  for (const message of messages) {
+    const speaker = message.role === 'user' ? '我' : characterDisplayName;
+    const time = message.timestamp.toLocaleTimeString('zh-CN');
+    const tags = [
+      message.source === 'voice' ? '语音' : null,
+      message.emotion ?? null,
+    ].filter(Boolean);
+    lines.push(`**${speaker}** · ${time}${tags.length ? ` · ${tags.join(' · ')}` : ''}`);
+    lines.push('');
+    lines.push(...message.content.split('\n').map((l) => `> ${l}`));
+    if (message.contentJp) {
+      lines.push('>');
+      lines.push(...message.contentJp.split('\n').map((l) => `> *${l}*`));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function formatSrtTime(ms: number): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const h = Math.floor(clamped / 3600000);
+  const m = Math.floor((clamped % 3600000) / 60000);
+  const s = Math.floor((clamped % 60000) / 1000);
+  const rest = clamped % 1000;
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(rest, 3)}`;
+}
+
+/**
+ * Subtitle file for the spoken part of the conversation: recognized user speech and the
+ * character's TTS replies. Cues are timed relative to the first voice message; a cue ends at
+ * the next voice message or after an estimated reading time, whichever comes first.
+ */
+export function toTranscriptSrt({ characterDisplayName, messages }: TranscriptSource): string {
+  const voiceMessages = messages.filter((m) => m.role === 'assistant' || m.source === 'voice');
+  if (voiceMessages.length === 0) return '';
+
+  const origin = voiceMessages[0].timestamp.getTime();
+  const cues: string[] = [];
+
+  voiceMessages.forEach((message, index) => {
+    const start = message.timestamp.getTime() - origin;
+    const estimated = Math.min(
+      SRT_MAX_CUE_MS,
+      Math.max(SRT_MIN_CUE_MS, message.content.length * SRT_MS_PER_CHAR)
+    );
+    const next = voiceMessages[index + 1];
+    const end = next
+      ? Math.min(start + estimated, next.timestamp.getTime() - origin)
+      : start + estimated;
+    const speaker = message.role === 'user' ? '我' : characterDisplayName;
+    const text = [`${speaker}: ${message.content}`];
+    if (message.contentJp) text.push(message.contentJp);
+
+    cues.push(
+      [String(index + 1), `${formatSrtTime(start)} --> ${formatSrtTime(Math.max(end, start + 1))}`, ...text].join('\n')
+    );
+  });
+
+  return cues.join('\n\n') + '\n';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, path: string, optional = false): string | undefined {
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'string') {
+    throw new TranscriptError(`字段 ${path} 应为字符串`);
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'boolean') {
+    throw new TranscriptError(`字段 ${path} 应为布尔值`);
+  }
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, options: readonly T[], path: string): T | undefined {
+  if (value === undefined) return undefined;
+  if (!options.includes(value as T)) {
+    throw new TranscriptError(`字段 ${path} 应为 ${options.join(' / ')}`);
+  }
+  return value as T;
+}
+
+function expectSegments(value: unknown, path: string): MessageSegment[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    throw new TranscriptError(`字段 ${path} 应为数组`);
+  }
+  return value.map((raw, i) => {
+    const segmentPath = `${path}[${i}]`;
+    if (!isRecord(raw)) {
+      throw new TranscriptError(`${segmentPath} 应为对象`);
+    }
+    return {
+      content: expectString(raw.content, `${segmentPath}.content`) as string,
+      contentJp: expectString(raw.contentJp, `${segmentPath}.contentJp`, true),
+      emotion: expectString(raw.emotion, `${segmentPath}.emotion`, true),
+    };
+  });
+}
+
+function expectDate(value: unknown, path: string): string {
+  const text = expectString(value, path) as string;
+  if (Number.isNaN(Date.parse(text))) {
+    throw new TranscriptError(`字段 ${path} 不是有效的时间`);
+  }
+  return text;
+}
+
+/**
+ * Parse and validate an exported JSON transcript.
+ * @throws TranscriptError when the content does not match the transcript schema
+ */
+export function parseTranscript(text: string): TranscriptFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TranscriptError('文件不是有效的 JSON');
+  }
+
+  if (!isRecord(data) || data.format !== TRANSCRIPT_FORMAT) {
+    throw new TranscriptError('不是 Chat Anon 导出的对话文件');
+  }
+  if (typeof data.version !== 'number' || data.version > TRANSCRIPT_VERSION) {
+    throw new TranscriptError(`不支持的文件版本: ${String(data.version)}`);
+  }
+  if (!isRecord(data.session)) {
+    throw new TranscriptError('缺少 session 字段');
+  }
+  if (!Array.isArray(data.messages)) {
+    throw new TranscriptError('缺少 messages 数组');
+  }
+
+  const session = data.session;
+  const messages = data.messages.map((raw, i): TranscriptMessage => {
+    const path = `messages[${i}]`;
+    if (!isRecord(raw)) {
+      throw new TranscriptError(`${path} 应为对象`);
+    }
+    if (raw.role !== 'user' && raw.role !== 'assistant') {
+      throw new TranscriptError(`字段 ${path}.role 应为 user 或 assistant`);
+    }
+    return {
+      id: expectString(raw.id, `${path}.id`) as string,
+      role: raw.role,
+      content: expectString(raw.content, `${path}.content`) as string,
+      contentJp: expectString(raw.contentJp, `${path}.contentJp`, true),
+      emotion: expectString(raw.emotion, `${path}.emotion`, true),
+      timestamp: expectDate(raw.timestamp, `${path}.timestamp`),
+      isPartial: expectBoolean(raw.isPartial, `${path}.isPartial`),
+      segments: expectSegments(raw.segments, `${path}.segments`),
+      source: expectOneOf(raw.source, ['text', 'voice'], `${path}.source`),
+      turnId: expectString(raw.turnId, `${path}.turnId`, true),
+      hasAudio: expectBoolean(raw.hasAudio, `${path}.hasAudio`),
+      deliveryStatus: expectOneOf(raw.deliveryStatus, ['pending', 'sent', 'failed'], `${path}.deliveryStatus`),
+      interrupted: expectBoolean(raw.interrupted, `${path}.interrupted`),
+    };
+  });
+
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: data.version,
+    exportedAt: expectDate(data.exportedAt, 'exportedAt'),
+    session: {
+      title: expectString(session.title, 'session.title') as string,
+      character: expectString(session.character, 'session.character') as string,
+      characterDisplayName: expectString(
+        session.characterDisplayName,
+        'session.characterDisplayName'
+      ) as string,
+      live2dModelSet: expectString(session.live2dModelSet, 'session.live2dModelSet', true),
+      createdAt: expectDate(session.createdAt, 'session.createdAt'),
+    },
+    messages,
+  };
+}
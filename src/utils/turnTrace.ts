@@ -0,0 +1,190 @@
+// Per-turn latency tracing
+//
+// Collects client-side timestamps of the pipeline events of one turn (request → ASR → LLM → TTS →
+// audio) so the UI can show where the time went. Times are performance.now() values; only
+// differences are meaningful.
+
+import type { ServerMessage } from '@/utils/websocket';
+
+export type TraceMark =
+  | 'request'
+  | 'asr_start'
+  | 'asr_end'
+  | 'llm_start'
+  | 'llm_end'
+  | 'tts_start'
+  | 'first_audio'
+  | 'audio_end'
+  | 'turn_end';
+
+export interface TurnTrace {
+  /** Assigned at llm_start; traces without one never produced a reply. */
+  turnId?: string;
+  /** Epoch ms of the first mark, for display. */
+  startedAt: number;
+  marks: Partial<Record<TraceMark, number>>;
+  /** `llm_end.elapsed_time` as reported by the server (seconds). */
+  serverLlmSeconds?: number;
+  /** Turn ended with an `error` instead of `turn_end`. */
+  failed?: boolean;
+}
+
+export interface TurnTimings {
+  asrMs?: number;
+  llmMs?: number;
+  /** Request (or speech end) to first audio chunk. */
+  firstAudioMs?: number;
+  totalMs?: number;
+}
+
+export type TimingKey = keyof TurnTimings;
+
+/** Bars of the waterfall, in pipeline order. */
+export const WATERFALL_PHASES: { label: string; from: TraceMark; to: TraceMark }[] = [
+  { label: 'ASR', from: 'asr_start', to: 'asr_end' },
+  { label: 'LLM', from: 'llm_start', to: 'llm_end' },
+  { label: 'TTS', from: 'tts_start', to: 'first_audio' },
+  { label: '音频', from: 'first_audio', to: 'audio_end' },
+];
+
+function span(trace: TurnTrace, from: TraceMark, to: TraceMark): number | undefined {
+  const start = trace.marks[from];
+  const end = trace.marks[to];
+  return start !== undefined && end !== undefined ? Math.max(0, end - start) : undefined;
+}
+
+/** Time origin of a trace: the request, or the first event seen when the request was not. */
+export function traceOrigin(trace: TurnTrace): number {
+  return Math.min(...Object.values(trace.marks));
+}
+
+export function computeTimings(trace: TurnTrace): TurnTimings {
+  const origin = traceOrigin(trace);
+  // Voice turns: latency the user feels starts when they stop talking (asr_end)
+  const requestAt = trace.marks.request ?? trace.marks.asr_end ?? origin;
+  const firstAudio = trace.marks.first_audio;
+  const end = trace.marks.turn_end ?? trace.marks.audio_end;
+  return {
+    asrMs: span(trace, 'asr_start', 'asr_end'),
+    llmMs: span(trace, 'llm_start', 'llm_end'),
+    firstAudioMs: firstAudio !== undefined ? Math.max(0, firstAudio - requestAt) : undefined,
+    totalMs: end !== undefined ? Math.max(0, end - origin) : undefined,
+  };
+}
+
+export function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '—';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`;
+}
+
+/** Nearest-rank percentile; values need not be sorted. */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+export interface TimingSummary {
+  count: number;
+  p50?: number;
+  p90?: number;
+}
+
+export function summarizeTimings(traces: TurnTrace[]): Record<TimingKey, TimingSummary> {
+  const timings = traces.filter((t) => !t.failed).map(computeTimings);
+  const summarize = (key: TimingKey): TimingSummary => {
+    const values = timings.map((t) => t[key]).filter((v): v is number => v !== undefined);
+    return { count: values.length, p50: percentile(values, 50), p90: percentile(values, 90) };
+  };
+  return {
+    asrMs: summarize('asrMs'),
+    llmMs: summarize('llmMs'),
+    firstAudioMs: summarize('firstAudioMs'),
+    totalMs: summarize('totalMs'),
+  };
+}
+
+/**
+ * Builds one TurnTrace per turn from the server message stream. `onUpdate` receives a copy
+ * after every mark so the store can render the trace while the turn is still running.
+ */
+export class TurnTraceRecorder {
+  private current: TurnTrace | null = null;
+  private done = true;
+
+  constructor(
+    private readonly onUpdate: (trace: TurnTrace) => void,
+    private readonly getTurnId: () => string | null
+  ) {}
+
+  /** The client sent a text or audio message. */
+  markRequest(): void {
+    this.begin();
+    this.mark('request');
+  }
+
+  /** A chunk of reply audio arrived (JSON or binary). */
+  markAudio(): void {
+    this.mark('first_audio', true);
+  }
+
+  handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'thinking':
+        if (this.done) this.begin();
+        break;
+      case 'asr_start':
+        // Voice call turns start here; the previous turn may still be draining audio
+        if (this.done) this.begin();
+        this.mark('asr_start');
+        break;
+      case 'asr_end':
+        this.mark('asr_end');
+        break;
+      case 'llm_start':
+        if (this.done) this.begin();
+        this.current!.turnId = this.getTurnId() ?? undefined;
+        this.mark('llm_start');
+        break;
+      case 'tts_start':
+        this.mark('tts_start', true);
+        break;
+      case 'audio_end':
+        // Only meaningful once this turn produced audio (a late one from the previous turn is ignored)
+        if (this.current?.marks.first_audio !== undefined) this.mark('audio_end');
+        break;
+      case 'llm_end':
+        if (this.current) this.current.serverLlmSeconds = message.elapsed_time;
+        this.mark('llm_end');
+        break;
+      case 'turn_end':
+        this.mark('turn_end');
+        this.done = true;
+        break;
+      case 'error':
+        if (this.current && !this.done) {
+          this.current.failed = true;
+          this.mark('turn_end');
+          this.done = true;
+        }
+        break;
+    }
+  }
+
+  private begin(): void {
+    this.current = { startedAt: Date.now(), marks: {} };
+    this.done = false;
+  }
+
+  /** `firstOnly` keeps the earliest time for events repeated per sentence. */
+  private mark(mark: TraceMark, firstOnly = false): void {
+    const trace = this.current;
+    if (!trace) return;
+    // audio_end after turn_end still belongs to the finished turn
+    if (this.done && mark !== 'audio_end') return;
+    if (firstOnly && trace.marks[mark] !== undefined) return;
+    trace.marks[mark] = performance.now();
+    this.onUpdate({ ...trace, marks: { ...trace.marks } });
+  }
+}
@@ -0,0 +1,89 @@
+// Voice Activity Detection
+//
+// Frame-based energy + zero-crossing detector for the microphone stream. Cheap enough to run in
+// the audio callback; an onset delay rejects clicks and a hangover bridges short pauses.
+
+import { calculateRMS } from '@/utils/audio';
+
+export interface VadConfig {
+  /** RMS above which a frame may be speech (0-1 float samples). */
+  energyThreshold: number;
+  /** Zero crossings per sample above which a loud frame is treated as noise (hiss, keyboard clicks). */
+  maxZeroCrossingRate: number;
+  /** Speech must last this long before speech_start fires. */
+  minSpeechMs: number;
+  /** Silence must last this long before speech_end fires. */
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  energyThreshold: 0.02,
+  maxZeroCrossingRate: 0.25,
+  minSpeechMs: 200,
+  hangoverMs: 600,
+};
+
+export type VadEvent = 'speech_start' | 'speech_end';
+
+export function zeroCrossingRate(samples: Float32Array): number {
+  if (samples.length < 2) return 0;
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+  }
+  return crossings / (samples.length - 1);
+}
+
+export class VoiceActivityDetector {
+  private readonly config: VadConfig;
+  private speaking = false;
+  /** Milliseconds of consecutive speech (while silent) or silence (while speaking). */
+  private runMs = 0;
+
+  constructor(config: Partial<VadConfig> = {}) {
+    this.config = { ...DEFAULT_VAD_CONFIG, ...config };
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /** Whether a single frame looks like speech, without onset/hangover smoothing. */
+  isSpeechFrame(samples: Float32Array): boolean {
+    return (
+      calculateRMS(samples) >= this.config.energyThreshold &&
+      zeroCrossingRate(samples) <= this.config.maxZeroCrossingRate
+    );
+  }
+
+  /**
+   * Feed one frame; returns an event when the smoothed state flips.
+   */
+  process(samples: Float32Array, sampleRate: number): VadEvent | null {
+    if (samples.length === 0) return null;
+    const frameMs = (samples.length / sampleRate) * 1000;
+    const speech = this.isSpeechFrame(samples);
+
+    if (speech === this.speaking) {
+      this.runMs = 0;
+      return null;
+    }
+    this.runMs += frameMs;
+    if (!this.speaking && this.runMs >= this.config.minSpeechMs) {
+      this.speaking = true;
+      this.runMs = 0;
+      return 'speech_start';
+    }
+    if (this.speaking && this.runMs >= this.config.hangoverMs) {
+      this.speaking = false;
+      this.runMs = 0;
+      return 'speech_end';
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.speaking = false;
+    this.runMs = 0;
+  }
+}
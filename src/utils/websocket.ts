@@ -6,8 +6,18 @@ export interface ConnectMessage {
   type: 'connect';
   api_token: string;
   character_name: string;
+  /** Ask for binary audio frames (see utils/binaryFrame.ts); the server confirms in `connected`. */
+  binary_audio?: boolean;
+  /** Preferred encoding of uploaded audio; the server confirms in `connected`, PCM otherwise. */
+  upload_audio_format?: AudioUploadFormat;
 }
 
+/**
+ * Encoding of microphone audio sent to the server. `opus` payloads are length-prefixed raw
+ * Opus packets (see utils/opusEncoder.ts).
+ */
+export type AudioUploadFormat = 'pcm_s16le' | 'opus';
+
 export interface TextMessage {
   type: 'message';
   content: string;
@@ -16,6 +26,8 @@ export interface TextMessage {
 export interface AudioMessage {
   type: 'audio_message';
   audio_base64: string;
+  /** Omitted for PCM. */
+  audio_format?: AudioUploadFormat;
 }
 
 export interface AudioStreamStartMessage {
@@ -25,6 +37,8 @@ export interface AudioStreamStartMessage {
 export interface AudioStreamChunkMessage {
   type: 'audio_stream_chunk';
   audio_base64: string;
+  /** Omitted for PCM. */
+  audio_format?: AudioUploadFormat;
 }
 
 export interface AudioStreamEndMessage {
@@ -38,6 +52,8 @@ export interface VoiceCallStartMessage {
 export interface VoiceCallAudioChunkMessage {
   type: 'voice_call_audio_chunk';
   audio_base64: string;
+  /** Omitted for PCM. */
+  audio_format?: AudioUploadFormat;
 }
 
 export interface VoiceCallStopMessage {
@@ -57,6 +73,11 @@ export interface PingMessage {
   type: 'ping';
 }
 
+/** Barge-in: cancel the reply being generated/spoken; the server drops the rest of the turn. */
+export interface InterruptMessage {
+  type: 'interrupt';
+}
+
 export type ClientMessage =
   | ConnectMessage
   | TextMessage
@@ -69,7 +90,8 @@ export type ClientMessage =
   | VoiceCallStopMessage
   | SwitchCharacterMessage
   | ClearHistoryMessage
-  | PingMessage;
+  | PingMessage
+  | InterruptMessage;
 
 // ============ Server -> Client Messages ============
 
@@ -78,6 +100,10 @@ export interface ConnectedMessage {
   character: string;
   character_display_name: string;
   message: string;
+  /** True when the server accepted binary audio frames for this session. */
+  binary_audio?: boolean;
+  /** Upload encoding the server accepted; PCM when absent. */
+  upload_audio_format?: string;
 }
 
 export interface DisconnectedMessage {